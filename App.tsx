@@ -1,22 +1,42 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { PullToRefresh } from './components/PullToRefresh';
-import { ViewState, Spot, Story, User } from './types';
-import { INITIAL_STORIES, FILTERS, KNOWN_NEIGHBORHOODS } from './constants';
+import { ViewState, CheckIn, Spot, SpotRecord, Story, User, ImageRenditions } from './types';
+import { INITIAL_STORIES, FILTERS, NEAR_ME_RADII_KM, DEFAULT_NEAR_ME_RADIUS_KM, STORY_LIFETIME_MS } from './constants';
 import Navbar from './components/Navbar';
 import MapView from './components/MapView';
 import StoryCard from './components/StoryCard';
 import CreateView from './components/CreateView';
+import SpotView from './components/SpotView';
 import AuthView from './components/AuthView';
 import ProfileView from './components/ProfileView';
 import CountrySelector from './components/CountrySelector';
 import ReportModal from './components/ReportModal';
-import { MapPin } from './components/Icon';
+import StoryViewer from './components/StoryViewer';
+import StoryUnavailable from './components/StoryUnavailable';
+import { MapPin, Loader2, ArrowUp } from './components/Icon';
 import { useLanguage } from './translations';
-import { storiesService, usersService, supabase } from './services/supabaseService';
+import { useToast } from './components/Toast';
+import { storiesService, spotsService, checkInsService, usersService, realtimeService, StoriesCursor, NearbyQuery, LikeState } from './services/supabaseService';
+import { haversineDistanceKm, formatDistance } from './services/geoService';
+import { sortStoriesByTrending } from './services/trendingService';
+import { groupStoriesIntoSpots, SpotContext } from './services/spotGrouping';
+import { neighborhoodRegistry, Neighborhood } from './services/neighborhoods';
+import { applyCheckInChange, distanceToSpotM, isCloseEnoughToCheckIn } from './services/checkIns';
+import { applyStoryChange, rowMatchesFeed, FeedFilter } from './services/realtimeStories';
+import { createLikeCountBatcher, applyLikeCounts, LIKE_POLL_INTERVAL_MS } from './services/liveLikes';
+import { createLikeCoalescer } from './services/likeCoalescer';
+import { fail, isRetryable } from './services/result';
+import { outbox, flushOutbox, toOutboxStory, OutboxEntry } from './services/outbox';
+import { geocodingService, cityFromAddress } from './services/geocodingService';
 import { detectCountryFromCoordinates, getCountryName, getCountryFlag } from './services/countryService';
 
-// Default lifetime: 24 hours
-const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000;
+// Message d'erreur quand le serveur refuse une action rejouée depuis l'outbox
+const OUTBOX_ERROR_ACTIONS: Record<OutboxEntry['kind'], string> = {
+  createStory: 'errors.action.postStory',
+  toggleLike: 'errors.action.like',
+  reportStory: 'errors.action.report',
+  deleteStory: 'errors.action.deleteStory'
+};
 
 // Formater le temps écoulé depuis la dernière mise à jour
 const formatTimeAgo = (date: Date): string => {
@@ -30,19 +50,41 @@ const formatTimeAgo = (date: Date): string => {
   return `Il y a ${days}j`;
 };
 
-const getNeighborhoodName = (lat: number, lon: number, defaultCity: string): string => {
-    // Check if near any known neighborhood (approx 2.5km radius)
-    for (const n of KNOWN_NEIGHBORHOODS) {
-        const dist = Math.sqrt(Math.pow(n.lat - lat, 2) + Math.pow(n.lon - lon, 2));
-        if (dist < 0.025) {
-            return n.name;
-        }
+// Lien partagé depuis StoryCard : <origin>?story=<id>
+const getSharedStoryId = (): string | null =>
+  new URLSearchParams(window.location.search).get('story');
+
+// Retire ?story= de l'URL une fois le lien traité (un refresh n'ouvre plus la story)
+const clearSharedStoryParam = () => {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has('story')) return;
+  url.searchParams.delete('story');
+  window.history.replaceState(null, '', `${url.pathname}${url.search}${url.hash}`);
+};
+
+// Spots des stories données, dans l'ordre d'apparition, réduits à ces stories
+// (le viewer parcourt une spot entière avant de passer à la suivante)
+const groupStoriesBySpot = (stories: Story[], spotByStoryId: Record<string, Spot>): Spot[] => {
+  const spots = new Map<string, Spot>();
+  for (const story of stories) {
+    const spot = spotByStoryId[story.id];
+    if (!spot) continue;
+    const existing = spots.get(spot.id);
+    if (existing) {
+      existing.activeStories.push(story);
+    } else {
+      spots.set(spot.id, { ...spot, activeStories: [story] });
     }
-    return defaultCity;
+  }
+  return [...spots.values()];
 };
 
 const App: React.FC = () => {
   const { t } = useLanguage();
+  const { showToast, showError } = useToast();
+  // Pour les callbacks créés une seule fois (coalescer de likes)
+  const showErrorRef = useRef(showError);
+  showErrorRef.current = showError;
   const [currentView, setCurrentView] = useState<ViewState>(ViewState.FEED);
   const [user, setUser] = useState<User | null>(null);
   
@@ -58,32 +100,53 @@ const App: React.FC = () => {
   // Master state: List of active stories. 
   const [activeStories, setActiveStories] = useState<Story[]>(INITIAL_STORIES);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const lastRefreshTime = useRef<Date>(new Date());
+
+  // Pagination du feed (curseur keyset created_at + id)
+  const [storiesCursor, setStoriesCursor] = useState<StoriesCursor | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Incrémenté à chaque rechargement complet pour ignorer les pages devenues obsolètes
+  const feedGeneration = useRef(0);
+
+  // Stories reçues en temps réel, affichées via la pastille "N nouvelles stories"
+  const [pendingStories, setPendingStories] = useState<Story[]>([]);
+  const feedScrollRef = useRef<HTMLDivElement>(null);
   
   // State for liked stories (IDs)
   const [likedStoryIds, setLikedStoryIds] = useState<Set<string>>(new Set());
+  const likedStoryIdsRef = useRef(likedStoryIds);
+  likedStoryIdsRef.current = likedStoryIds;
+  // Stories publiées hors ligne, en attente dans l'outbox
+  const [queuedStories, setQueuedStories] = useState<Story[]>([]);
+  const queuedStoriesRef = useRef(queuedStories);
+  queuedStoriesRef.current = queuedStories;
+  const queuedStoryIds = useMemo(() => new Set(queuedStories.map(s => s.id)), [queuedStories]);
   const [isLoadingLikes, setIsLoadingLikes] = useState(true);
   
   const [selectedFilter, setSelectedFilter] = useState('All');
-  const [showWelcome, setShowWelcome] = useState(true);
+  const [nearRadiusKm, setNearRadiusKm] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('spotlive_near_radius_km'));
+    return NEAR_ME_RADII_KM.includes(saved) ? saved : DEFAULT_NEAR_ME_RADIUS_KM;
+  });
+  // Un lien partagé mène directement à la story, sans l'écran d'accueil
+  const [showWelcome, setShowWelcome] = useState(() => !getSharedStoryId());
   const [pendingView, setPendingView] = useState<ViewState | null>(null);
   const [showCountrySelector, setShowCountrySelector] = useState(false);
   const [lastUpdateTime, setLastUpdateTime] = useState<Date | null>(null);
   const [reportingStoryId, setReportingStoryId] = useState<string | null>(null);
+  // Horloge des scores "Trending" (la fraîcheur décroît avec le temps)
+  const [trendingNow, setTrendingNow] = useState(() => Date.now());
 
   // Charger les likes de l'utilisateur
   const loadUserLikes = useCallback(async () => {
     if (!user?.id) return;
     
     setIsLoadingLikes(true);
-    try {
-      const likes = await storiesService.getUserLikes(user.id);
-      setLikedStoryIds(likes);
-    } catch (error) {
-      console.error('Failed to load user likes:', error);
-    } finally {
-      setIsLoadingLikes(false);
+    const likes = await storiesService.getUserLikes(user.id);
+    if (likes.ok) {
+      setLikedStoryIds(likes.data);
     }
+    setIsLoadingLikes(false);
   }, [user?.id]);
 
   // Charger les likes au chargement et quand l'utilisateur change
@@ -98,14 +161,15 @@ const App: React.FC = () => {
     const savedCountryCode = localStorage.getItem('spotlive_country_code');
     
     if (savedUserId && savedUsername) {
-      usersService.getUser(savedUserId).then(user => {
-        if (user) {
-          setUser(user);
+      usersService.getUser(savedUserId).then(result => {
+        if (result.ok) {
+          setUser(result.data);
+        } else if (result.error.kind === 'not_found') {
+          // User supprimé côté serveur : nettoyer localStorage
+          // (une erreur réseau ne doit pas déconnecter l'utilisateur)
+          localStorage.removeItem('spotlive_user_id');
+          localStorage.removeItem('spotlive_username');
         }
-      }).catch(() => {
-        // Si erreur, nettoyer localStorage
-        localStorage.removeItem('spotlive_user_id');
-        localStorage.removeItem('spotlive_username');
       });
     }
     
@@ -123,27 +187,25 @@ const App: React.FC = () => {
         setUserLocation({ lat: latitude, lng: longitude });
         setIsLocating(false);
 
-        // Fetch City Name (Reverse Geocoding via OSM Nominatim)
-        try {
-          const response = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`);
-          const data = await response.json();
-          const city = data.address?.city || data.address?.town || data.address?.village || data.address?.county || 'Local';
-          setCityName(city);
-          
-          // Détecter le pays
-          const countryCode = data.address?.country_code?.toUpperCase();
-          if (countryCode && countryCode.length === 2) {
-            setUserCountryCode(countryCode);
-            
-            // Si aucun pays n'est sélectionné, utiliser le pays de l'utilisateur par défaut
-            if (!selectedCountryCode && !localStorage.getItem('spotlive_country_code')) {
-              setSelectedCountryCode(countryCode);
-              localStorage.setItem('spotlive_country_code', countryCode);
-            }
-          }
-        } catch (e) {
-          console.warn("Could not fetch location data", e);
+        // Fetch City Name (reverse geocoding at city level, cached)
+        const place = await geocodingService.reverse(latitude, longitude, { zoom: 10 });
+        if (!place.ok) {
+          console.warn("Could not fetch location data", place.error);
           setCityName('Local');
+          return;
+        }
+        setCityName(cityFromAddress(place.data.address) || 'Local');
+
+        // Détecter le pays
+        const countryCode = place.data.address.countryCode;
+        if (countryCode && countryCode.length === 2) {
+          setUserCountryCode(countryCode);
+
+          // Si aucun pays n'est sélectionné, utiliser le pays de l'utilisateur par défaut
+          if (!selectedCountryCode && !localStorage.getItem('spotlive_country_code')) {
+            setSelectedCountryCode(countryCode);
+            localStorage.setItem('spotlive_country_code', countryCode);
+          }
         }
       },
       (err) => {
@@ -156,21 +218,78 @@ const App: React.FC = () => {
   }, [selectedCountryCode]);
 
   // --- 0.5. Load stories from Supabase on startup (filtrées par pays) ---
+  const countryToFilter = selectedCountryCode || userCountryCode;
+
+  // Filtre "Near Me" : zone de recherche autour de l'utilisateur
+  const nearQuery = useMemo<NearbyQuery | null>(() => {
+    if (selectedFilter !== 'Near Me' || !userLocation) return null;
+    return { latitude: userLocation.lat, longitude: userLocation.lng, radiusKm: nearRadiusKm };
+  }, [selectedFilter, userLocation, nearRadiusKm]);
+
+  // Charger la première page du feed (réinitialise la pagination)
   const loadStories = useCallback(async () => {
-    try {
-      // Utiliser le pays sélectionné, ou le pays de l'utilisateur par défaut
-      const countryToFilter = selectedCountryCode || userCountryCode;
-      const stories = await storiesService.getActiveStories(countryToFilter || null);
-      setActiveStories(stories);
-      const now = new Date();
-      lastRefreshTime.current = now;
-      setLastUpdateTime(now);
-      return true;
-    } catch (error) {
-      console.error('Error loading stories:', error);
+    const generation = ++feedGeneration.current;
+    // Utiliser le pays sélectionné, ou le pays de l'utilisateur par défaut
+    const page = await storiesService.getActiveStoriesPage({
+      countryCode: countryToFilter || null,
+      near: nearQuery
+    });
+    if (generation !== feedGeneration.current) return false;
+    if (!page.ok) {
+      // Garder le feed affiché : une erreur n'est pas "aucune story"
+      showError(page.error, 'errors.action.loadStories');
       return false;
     }
-  }, [selectedCountryCode, userCountryCode]);
+    // Les stories de l'outbox restent visibles jusqu'à leur envoi
+    const pageIds = new Set(page.data.stories.map(s => s.id));
+    setActiveStories([
+      ...queuedStoriesRef.current.filter(s => !pageIds.has(s.id)),
+      ...page.data.stories
+    ]);
+    setPendingStories([]);
+    setStoriesCursor(page.data.nextCursor);
+    const now = new Date();
+    setLastUpdateTime(now);
+    return true;
+  }, [countryToFilter, nearQuery, showError]);
+
+  // Check-ins actifs du pays affiché ("N personnes ici")
+  const [activeCheckIns, setActiveCheckIns] = useState<CheckIn[]>([]);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const loadCheckIns = useCallback(async () => {
+    const result = await checkInsService.getActiveCheckIns(countryToFilter || null);
+    // En cas d'erreur, les spots s'affichent sans leurs check-ins
+    if (result.ok) setActiveCheckIns(result.data);
+  }, [countryToFilter]);
+
+  useEffect(() => {
+    void loadCheckIns();
+  }, [loadCheckIns]);
+
+  // Charger la page suivante (scroll infini)
+  const loadMoreStories = useCallback(async () => {
+    if (!storiesCursor || isLoadingMore) return;
+
+    const generation = feedGeneration.current;
+    setIsLoadingMore(true);
+    const page = await storiesService.getActiveStoriesPage({
+      countryCode: countryToFilter || null,
+      near: nearQuery,
+      cursor: storiesCursor
+    });
+    setIsLoadingMore(false);
+    if (generation !== feedGeneration.current) return;
+    if (!page.ok) {
+      // Le curseur est conservé : le sentinel relancera le chargement
+      showError(page.error, 'errors.action.loadStories');
+      return;
+    }
+    setActiveStories(prev => {
+      const knownIds = new Set(prev.map(s => s.id));
+      return [...prev, ...page.data.stories.filter(s => !knownIds.has(s.id))];
+    });
+    setStoriesCursor(page.data.nextCursor);
+  }, [countryToFilter, nearQuery, storiesCursor, isLoadingMore, showError]);
 
   // Chargement initial des stories
   useEffect(() => {
@@ -186,6 +305,7 @@ const App: React.FC = () => {
       // Recharger les stories et les likes
       await Promise.all([
         loadStories(),
+        loadCheckIns(),
         user?.id ? loadUserLikes() : Promise.resolve()
       ]);
     } catch (error) {
@@ -195,49 +315,132 @@ const App: React.FC = () => {
     }
   };
 
-  // Abonnement aux mises à jour en temps réel (avec debounce)
+  // Outbox hors ligne : stories en attente affichées, puis rejeu au démarrage,
+  // au retour du réseau et à la demande du service worker (Background Sync)
   useEffect(() => {
-    let refreshTimeout: NodeJS.Timeout | null = null;
-    
-    const channel = supabase
-      .channel('stories-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'stories'
-        },
-        (payload) => {
-          console.log('Change received!', payload);
-          // Debounce: rafraîchir seulement si la dernière mise à jour date de plus de 5 secondes
-          const now = new Date();
-          const timeSinceLastRefresh = (now.getTime() - lastRefreshTime.current.getTime()) / 1000;
-          
-          if (timeSinceLastRefresh > 5) {
-            // Annuler le timeout précédent si existe
-            if (refreshTimeout) {
-              clearTimeout(refreshTimeout);
-            }
-            
-            // Attendre 1 seconde avant de rafraîchir (debounce)
-            refreshTimeout = setTimeout(() => {
-              if (!isRefreshing) {
-                loadStories();
-              }
-            }, 1000);
-          }
+    void outbox.saveConfig();
+
+    const refreshQueued = async () => {
+      const queued = await outbox.queuedStories();
+      setQueuedStories(queued);
+      setActiveStories(prev => {
+        const knownIds = new Set(prev.map(s => s.id));
+        const missing = queued.filter(s => !knownIds.has(s.id));
+        return missing.length > 0 ? [...missing, ...prev] : prev;
+      });
+    };
+
+    const flush = () => flushOutbox({
+      onSent: (entry, data) => {
+        if (entry.kind === 'createStory') {
+          const saved = data as Story;
+          setActiveStories(prev => prev.map(s => s.id === saved.id ? saved : s));
         }
-      )
-      .subscribe();
+      },
+      onDropped: (entry, error) => {
+        if (entry.kind === 'createStory') {
+          setActiveStories(prev => prev.filter(s => s.id !== entry.story.id));
+        }
+        showErrorRef.current(error, OUTBOX_ERROR_ACTIONS[entry.kind]);
+      }
+    });
+
+    const unsubscribe = outbox.subscribe(() => {
+      void refreshQueued();
+    });
+    void refreshQueued().then(flush);
+
+    const handleOnline = () => {
+      void flush();
+    };
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'OUTBOX_SYNC') void flush();
+    };
+    window.addEventListener('online', handleOnline);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
 
     return () => {
-      if (refreshTimeout) {
-        clearTimeout(refreshTimeout);
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, []);
+
+  // Filtres courants, lus par l'abonnement temps réel sans le recréer
+  const feedFilterRef = useRef<FeedFilter>({});
+  feedFilterRef.current = { countryCode: countryToFilter, near: nearQuery };
+  const userIdRef = useRef<string | null>(null);
+  userIdRef.current = user?.id ?? null;
+
+  // Abonnement aux mises à jour en temps réel : les changements sont appliqués
+  // directement sur les stories chargées, sans recharger le feed
+  useEffect(() => {
+    const unsubscribe = realtimeService.subscribeToStories((change) => {
+      const filter = feedFilterRef.current;
+
+      if (change.eventType === 'INSERT') {
+        if (!rowMatchesFeed(change.new, filter)) return;
+
+        // Ses propres stories apparaissent directement, les autres attendent
+        // un tap sur la pastille pour ne pas faire sauter le scroll
+        if (change.new.user_id && change.new.user_id === userIdRef.current) {
+          setActiveStories(prev => applyStoryChange(prev, change, filter));
+        } else {
+          setPendingStories(prev => applyStoryChange(prev, change, filter));
+        }
+      } else {
+        setActiveStories(prev => applyStoryChange(prev, change, filter));
+        setPendingStories(prev => applyStoryChange(prev, change, filter));
       }
-      supabase.removeChannel(channel);
+
+      const now = new Date();
+      setLastUpdateTime(now);
+    });
+
+    return () => {
+      unsubscribe();
     };
-  }, [loadStories, isRefreshing]); 
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = realtimeService.subscribeToCheckIns((change) => {
+      setActiveCheckIns(prev => applyCheckInChange(prev, change, feedFilterRef.current.countryCode));
+    });
+    return unsubscribe;
+  }, []);
+
+  // Stories en attente qui ne sont pas déjà dans le feed (ex: sa propre story)
+  const newStories = useMemo(() => {
+    const knownIds = new Set(activeStories.map(s => s.id));
+    return pendingStories.filter(s => !knownIds.has(s.id));
+  }, [pendingStories, activeStories]);
+
+  const showNewStories = () => {
+    setActiveStories(prev => {
+      const knownIds = new Set(prev.map(s => s.id));
+      return [...pendingStories.filter(s => !knownIds.has(s.id)), ...prev];
+    });
+    setPendingStories([]);
+    feedScrollRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Scroll infini : charger la page suivante quand la sentinelle devient visible
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || currentView !== ViewState.FEED || !storiesCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadMoreStories();
+        }
+      },
+      { rootMargin: '400px 0px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [currentView, storiesCursor, loadMoreStories, selectedFilter]);
 
   // Cleanup Loop: Automatically remove expired stories
   useEffect(() => {
@@ -247,78 +450,214 @@ const App: React.FC = () => {
         const valid = current.filter(s => s.expiresAt > now);
         return valid.length !== current.length ? valid : current;
       });
+      setActiveCheckIns(current => {
+        const valid = current.filter(c => c.expiresAt > now);
+        return valid.length !== current.length ? valid : current;
+      });
     }, 10000); 
 
     return () => clearInterval(interval);
   }, []);
 
+  // Recalculer les scores "Trending" chaque minute
+  useEffect(() => {
+    const interval = setInterval(() => setTrendingNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Quartiers des villes du pays affiché et de celles où se trouvent les stories
+  const [neighborhoods, setNeighborhoods] = useState<Neighborhood[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    const points = activeStories.map(s => ({ lat: s.latitude, lon: s.longitude }));
+    if (userLocation) points.push({ lat: userLocation.lat, lon: userLocation.lng });
+
+    neighborhoodRegistry.load({ countryCode: countryToFilter, points }).then(result => {
+      // Registre indisponible : les spots gardent le nom de la ville
+      if (!cancelled && result.ok) setNeighborhoods(result.data);
+    });
+    return () => { cancelled = true; };
+  }, [activeStories, userLocation, countryToFilter]);
+
+  // Spots persistants des stories et check-ins affichés, chargés une fois par id
+  const [spotRecords, setSpotRecords] = useState<Record<string, SpotRecord>>({});
+  const requestedSpotIdsRef = useRef(new Set<string>());
+  useEffect(() => {
+    const missing = [...new Set([...activeStories, ...activeCheckIns].map(item => item.spotId))]
+      .filter((id): id is string => !!id && !requestedSpotIdsRef.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach(id => requestedSpotIdsRef.current.add(id));
+
+    spotsService.getSpots(missing).then(result => {
+      if (!result.ok) {
+        // Nouvel essai au prochain changement des stories
+        missing.forEach(id => requestedSpotIdsRef.current.delete(id));
+        return;
+      }
+      if (result.data.length === 0) return;
+      setSpotRecords(prev => ({ ...prev, ...Object.fromEntries(result.data.map(spot => [spot.id, spot])) }));
+    });
+  }, [activeStories, activeCheckIns]);
+
+  const spotContext: SpotContext = useMemo(
+    () => ({ cityName, neighborhoods, spotRecords }),
+    [cityName, neighborhoods, spotRecords]
+  );
+
   // Calculer displayedSpots pour MapView
   const { displayedSpots, spotByStoryId } = useMemo(() => {
-    const byKey = new Map<
-      string,
-      {
-        key: string;
-        stories: Story[];
-        latSum: number;
-        lonSum: number;
-        locationName: string;
-      }
-    >();
+    const { spots, spotByStoryId } = groupStoriesIntoSpots(activeStories, spotContext, trendingNow, activeCheckIns);
+    return { displayedSpots: spots, spotByStoryId };
+  }, [activeStories, spotContext, trendingNow, activeCheckIns]);
 
-    for (const story of activeStories) {
-      const latKey = Math.round(story.latitude * 1000) / 1000;
-      const lonKey = Math.round(story.longitude * 1000) / 1000;
-      const key = `${story.locationName}|${latKey}|${lonKey}`;
-
-      const existing = byKey.get(key);
-      if (existing) {
-        existing.stories.push(story);
-        existing.latSum += story.latitude;
-        existing.lonSum += story.longitude;
-      } else {
-        byKey.set(key, {
-          key,
-          stories: [story],
-          latSum: story.latitude,
-          lonSum: story.longitude,
-          locationName: story.locationName
+  // Viewer plein écran : instantané des spots à parcourir et position de départ
+  const [viewer, setViewer] = useState<{ spots: Spot[]; spotIndex: number; storyIndex: number } | null>(null);
+  const closeViewer = useCallback(() => {
+    setViewer(null);
+    clearSharedStoryParam();
+  }, []);
+
+  // Story d'un lien ?story= : chargée par id, quel que soit le filtre pays
+  const [sharedStory, setSharedStory] = useState<'loading' | 'expired' | null>(() =>
+    getSharedStoryId() ? 'loading' : null
+  );
+
+  useEffect(() => {
+    const storyId = getSharedStoryId();
+    if (!storyId) return;
+    let cancelled = false;
+
+    const openSharedStory = async () => {
+      const result = await storiesService.getStory(storyId);
+      if (cancelled) return;
+
+      if (result.ok) {
+        const story = result.data;
+        setSharedStory(null);
+        setViewer({
+          spots: [{
+            id: `spot_shared_${story.id}`,
+            name: story.locationName,
+            neighborhood: '',
+            latitude: story.latitude,
+            longitude: story.longitude,
+            description: '',
+            activeStories: [story],
+            activeCheckIns: [],
+            vibeScore: 0
+          }],
+          spotIndex: 0,
+          storyIndex: 0
         });
+      } else if (result.error.kind === 'not_found') {
+        setSharedStory('expired');
+      } else {
+        setSharedStory(null);
+        clearSharedStoryParam();
+        showErrorRef.current(result.error, 'errors.action.openStory');
       }
+    };
+
+    void openSharedStory();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const closeSharedStory = () => {
+    setSharedStory(null);
+    clearSharedStoryParam();
+  };
+
+  // Ouvre le viewer sur une story, en parcourant les spots de la liste d'où elle vient
+  const openStoryInViewer = (stories: Story[], storyId: string) => {
+    const spots = groupStoriesBySpot(stories, spotByStoryId);
+    const spotIndex = spots.findIndex(spot => spot.activeStories.some(story => story.id === storyId));
+    if (spotIndex === -1) return;
+    const storyIndex = spots[spotIndex].activeStories.findIndex(story => story.id === storyId);
+    setViewer({ spots, spotIndex, storyIndex });
+  };
+
+  // Écran Spot : instantané du spot choisi, remplacé par sa version à jour tant qu'il existe
+  const [selectedSpot, setSelectedSpot] = useState<Spot | null>(null);
+  // Lieu pré-rempli dans CreateView ("Poster ici" depuis un spot)
+  const [postLocation, setPostLocation] = useState<{ name: string; lat: number; lng: number } | null>(null);
+
+  const liveSelectedSpot = useMemo(() => {
+    if (!selectedSpot) return null;
+    return displayedSpots.find(s => s.id === selectedSpot.id)
+      ?? { ...selectedSpot, activeStories: [], activeCheckIns: [], vibeScore: 0 };
+  }, [selectedSpot, displayedSpots]);
+
+  const handleSpotSelectFromMap = (spot: Spot) => {
+    setSelectedSpot(spot);
+    setCurrentView(ViewState.SPOT);
+  };
+
+  const handlePostHere = (spot: Spot) => {
+    setPostLocation({ name: spot.name, lat: spot.latitude, lng: spot.longitude });
+    if (!user) {
+      setPendingView(ViewState.POST);
+      setCurrentView(ViewState.AUTH);
+    } else {
+      setCurrentView(ViewState.POST);
+    }
+  };
+
+  // "Je suis là" : la position GPS doit être proche du spot (vérifié aussi
+  // côté serveur) ; le check-in remplace le précédent de l'utilisateur
+  const handleCheckIn = async (spot: Spot) => {
+    if (isCheckingIn) return;
+    if (!user) {
+      setPendingView(currentView);
+      setCurrentView(ViewState.AUTH);
+      return;
+    }
+    if (!userLocation) {
+      showToast(t('checkIn.noLocation'), 'error');
+      return;
+    }
+    if (!isCloseEnoughToCheckIn(spot, userLocation.lat, userLocation.lng)) {
+      const distanceKm = distanceToSpotM(spot, userLocation.lat, userLocation.lng) / 1000;
+      showToast(`${t('checkIn.tooFar')} (${formatDistance(distanceKm)})`, 'error');
+      return;
     }
 
-    const spots: Spot[] = [];
-    const storyToSpot: Record<string, Spot> = {};
-
-    for (const group of byKey.values()) {
-      const latitude = group.latSum / group.stories.length;
-      const longitude = group.lonSum / group.stories.length;
-      const neighborhood = getNeighborhoodName(latitude, longitude, cityName);
-      const totalLikes = group.stories.reduce((sum, s) => sum + (s.likes || 0), 0);
-      const vibeScore = group.stories.length * 20 + totalLikes * 2;
-
-      const spot: Spot = {
-        id: `spot_${group.key}`,
-        name: group.locationName,
-        neighborhood,
-        latitude,
-        longitude,
-        description: '',
-        activeStories: group.stories,
-        vibeScore
-      };
-
-      spots.push(spot);
-      for (const story of group.stories) {
-        storyToSpot[story.id] = spot;
+    setIsCheckingIn(true);
+    const record = spotRecords[spot.id];
+    let countryCode = record?.countryCode || spot.activeStories[0]?.countryCode || 'XX';
+    if (countryCode === 'XX') {
+      try {
+        countryCode = (await detectCountryFromCoordinates(userLocation.lat, userLocation.lng)) || 'XX';
+      } catch (error) {
+        console.warn('Could not detect country for check-in:', error);
       }
     }
 
-    return { displayedSpots: spots, spotByStoryId: storyToSpot };
-  }, [activeStories, cityName]);
+    const result = await checkInsService.checkIn({
+      userId: user.id,
+      // Spot pas encore chargé : résolu par nom et position côté backend
+      spotId: record ? spot.id : undefined,
+      locationName: spot.name,
+      spotLatitude: spot.latitude,
+      spotLongitude: spot.longitude,
+      latitude: userLocation.lat,
+      longitude: userLocation.lng,
+      countryCode
+    });
+    setIsCheckingIn(false);
 
-  const handleSpotSelectFromMap = (spot: Spot) => {
-    setCurrentView(ViewState.FEED);
-    // Optionally auto-scroll to spot
+    if (!result.ok) {
+      showError(result.error, 'errors.action.checkIn');
+      return;
+    }
+    setActiveCheckIns(prev => [result.data, ...prev.filter(c => c.id !== result.data.id && c.userId !== user.id)]);
+    showToast(t('checkIn.success'), 'success');
+  };
+
+  const closeCreateView = () => {
+    setCurrentView(postLocation && selectedSpot ? ViewState.SPOT : ViewState.FEED);
+    setPostLocation(null);
   };
 
   const handleNavigation = (view: ViewState) => {
@@ -328,6 +667,11 @@ const App: React.FC = () => {
       return;
     }
 
+    // Le bouton + de la barre poste à la position GPS, pas au dernier spot
+    if (view === ViewState.POST) {
+      setPostLocation(null);
+    }
+
     if ((view === ViewState.POST || view === ViewState.PROFILE) && !user) {
         setPendingView(view);
         setCurrentView(ViewState.AUTH);
@@ -361,12 +705,15 @@ const App: React.FC = () => {
     caption: string;
     hashtags: string[];
     media: string;
+    imageRenditions?: ImageRenditions;
     thumbnail?: string | null;
     isVideo: boolean;
+    videoBlob?: Blob;
+    imagesPending?: boolean;
     lat: number;
     lng: number;
   }) => {
-    if (!user) return;
+    if (!user) return false;
 
     // Détecter le pays depuis les coordonnées
     let countryCode = 'XX'; // Fallback
@@ -392,9 +739,10 @@ const App: React.FC = () => {
       username: user.username,
       userAvatar: user.avatarUrl,
       // Preview vs captured media:
-      // - Photos: `imageUrl` is the actual image (data URL).
-      // - Videos: `videoUrl` is a REAL URL (Supabase Storage), `imageUrl` is a poster thumbnail (data URL).
+      // - Photos: `imageUrl` is the uploaded image (data URL while queued offline).
+      // - Videos: `videoUrl` is a REAL URL (Supabase Storage), `imageUrl` is the uploaded poster (data URL while queued offline).
       imageUrl: data.isVideo ? (data.thumbnail || VIDEO_POSTER_PLACEHOLDER) : data.media,
+      imageRenditions: data.isVideo ? undefined : data.imageRenditions,
       videoUrl: data.isVideo ? data.media : undefined,
       timestamp: Date.now(),
       caption: data.caption || 'Just vibing',
@@ -407,112 +755,99 @@ const App: React.FC = () => {
       likes: 0
     };
 
-    // Sauvegarder dans Supabase
-    try {
-      const savedStory = await storiesService.createStory(newStory);
-      
-      if (savedStory) {
-        setActiveStories(prev => [savedStory, ...prev]);
-      } else {
-        // Fallback: ajouter localement si Supabase échoue
-        setActiveStories(prev => [newStory, ...prev]);
-      }
-    } catch (error) {
-      console.error('Error saving story:', error);
-      // Fallback: ajouter localement
+    // Sauvegarder dans Supabase. Un média non uploadé (vidéo, ou photo et poster
+    // encore en data URL) part directement dans l'outbox : pas de base64 en base
+    const saved = data.videoBlob || data.imagesPending ? null : await storiesService.createStory(newStory);
+    if (saved && !saved.ok && !isRetryable(saved.error)) {
+      // Rester sur l'écran de création pour pouvoir réessayer
+      showError(saved.error, 'errors.action.postStory');
+      return false;
+    }
+
+    if (saved?.ok) {
+      setActiveStories(prev => [saved.data, ...prev.filter(s => s.id !== saved.data.id)]);
+    } else {
+      // Hors ligne : la story est publiée quand le réseau revient
+      await outbox.enqueue({ kind: 'createStory', story: toOutboxStory(newStory), videoBlob: data.videoBlob });
       setActiveStories(prev => [newStory, ...prev]);
+      showToast(t('outbox.queued.story'));
     }
-    
-    setCurrentView(ViewState.FEED);
+    closeCreateView();
+    return true;
   };
 
   const handleDeleteStory = async (storyId: string) => {
     if (!user) return;
     
-    try {
-      const success = await storiesService.deleteStory(storyId, user.id);
-      if (success) {
-        setActiveStories(prev => prev.filter(s => s.id !== storyId));
-      } else {
-        // Fallback: supprimer localement même si Supabase échoue
-        setActiveStories(prev => prev.filter(s => s.id !== storyId));
-      }
-    } catch (error) {
-      console.error('Error deleting story:', error);
-      // Fallback: supprimer localement
-      setActiveStories(prev => prev.filter(s => s.id !== storyId));
+    // Story encore dans l'outbox : l'annuler suffit
+    const result = queuedStoryIds.has(storyId)
+      ? null
+      : await storiesService.deleteStory(storyId, user.id);
+
+    if (!result || (!result.ok && isRetryable(result.error))) {
+      await outbox.enqueue({ kind: 'deleteStory', storyId, userId: user.id });
+    } else if (!result.ok && result.error.kind !== 'not_found') {
+      // not_found : la story n'existe déjà plus côté serveur
+      showError(result.error, 'errors.action.deleteStory');
+      return;
     }
+    setActiveStories(prev => prev.filter(s => s.id !== storyId));
   };
 
-  const handleToggleLikeStory = async (storyId: string) => {
-    if (!user?.id) return;
-    
-    const isLiking = !likedStoryIds.has(storyId);
-    
-    // Mettre à jour l'état local immédiatement (optimistic update)
+  const applyLikeState = useCallback((storyId: string, state: LikeState) => {
+    setActiveStories(stories =>
+      stories.map(s =>
+        s.id === storyId && s.likes !== state.likes ? { ...s, likes: state.likes } : s
+      )
+    );
     setLikedStoryIds(prev => {
+      if (prev.has(storyId) === state.hasLiked) return prev;
       const next = new Set(prev);
-      if (isLiking) {
+      if (state.hasLiked) {
         next.add(storyId);
       } else {
         next.delete(storyId);
       }
       return next;
     });
-    
-    // Sauvegarder l'ancien nombre de likes pour le rollback si nécessaire
-    const previousLikes = activeStories.find(s => s.id === storyId)?.likes || 0;
-    
-    setActiveStories(stories => 
-      stories.map(s => 
-        s.id === storyId 
-          ? { ...s, likes: isLiking ? previousLikes + 1 : Math.max(0, previousLikes - 1) } 
-          : s
-      )
-    );
-    
-    // Synchroniser avec Supabase
-    try {
-      const result = await storiesService.toggleLike(storyId, user.id);
-      
-      if (result) {
-        // Mettre à jour avec les données du serveur
-        setActiveStories(stories => 
-          stories.map(s => 
-            s.id === storyId ? { ...s, likes: result.likes } : s
-          )
-        );
-        
-        setLikedStoryIds(prev => {
-          const next = new Set(prev);
-          if (result.hasLiked) {
-            next.add(storyId);
-          } else {
-            next.delete(storyId);
-          }
-          return next;
-        });
-      }
-    } catch (error) {
-      console.error('Error toggling like:', error);
-      
-      // Revert en cas d'erreur
-      setLikedStoryIds(prev => {
-        const next = new Set(prev);
-        if (isLiking) {
-          next.delete(storyId);
-        } else {
-          next.add(storyId);
+  }, []);
+
+  // Taps rapides regroupés : une requête en vol par story, la dernière intention gagne
+  const likeCoalescerRef = useRef<ReturnType<typeof createLikeCoalescer> | null>(null);
+  if (!likeCoalescerRef.current) {
+    likeCoalescerRef.current = createLikeCoalescer({
+      sendLike: async (storyId, liked) => {
+        const userId = userIdRef.current;
+        return userId
+          ? storiesService.toggleLike(storyId, userId, liked)
+          : fail('auth', 'Not logged in');
+      },
+      onSettled: (storyId, state, error) => {
+        const userId = userIdRef.current;
+        if (error && userId && isRetryable(error)) {
+          // Hors ligne : garder l'état optimiste, le like part avec l'outbox
+          const liked = likedStoryIdsRef.current.has(storyId);
+          void outbox.enqueue({ kind: 'toggleLike', storyId, userId, liked });
+          return;
         }
-        return next;
-      });
-      
-      setActiveStories(stories => 
-        stories.map(s => 
-          s.id === storyId ? { ...s, likes: previousLikes } : s
-        )
-      );
-    }
+        applyLikeState(storyId, state);
+        if (error) showErrorRef.current(error, 'errors.action.like');
+      }
+    });
+  }
+
+  const handleToggleLikeStory = (storyId: string) => {
+    if (!user?.id) return;
+
+    const hasLiked = likedStoryIds.has(storyId);
+    const likes = activeStories.find(s => s.id === storyId)?.likes || 0;
+
+    // Mise à jour optimiste, synchronisée ensuite par le coalescer
+    applyLikeState(storyId, {
+      likes: hasLiked ? Math.max(0, likes - 1) : likes + 1,
+      hasLiked: !hasLiked
+    });
+    likeCoalescerRef.current!.request(storyId, !hasLiked, { likes, hasLiked });
   };
 
   const handleLogout = () => {
@@ -533,18 +868,106 @@ const App: React.FC = () => {
   };
 
   const handleReportSuccess = (message: string) => {
-    alert(message);
+    showToast(message, 'success');
     // Optionnel : recharger les stories pour masquer celle qui a été signalée
     loadStories();
   };
 
+  // Distance de chaque story à l'utilisateur (km)
+  const distanceByStoryId = useMemo(() => {
+    const distances: Record<string, number> = {};
+    if (!userLocation) return distances;
+    for (const story of activeStories) {
+      distances[story.id] = haversineDistanceKm(userLocation.lat, userLocation.lng, story.latitude, story.longitude);
+    }
+    return distances;
+  }, [activeStories, userLocation]);
+
+  const handleNearRadiusChange = (radiusKm: number) => {
+    setNearRadiusKm(radiusKm);
+    localStorage.setItem('spotlive_near_radius_km', String(radiusKm));
+  };
+
   // Filtrer les stories affichées
   const filteredStories = useMemo(() => {
     if (selectedFilter === 'All') return activeStories;
+    if (selectedFilter === 'Near Me') {
+      // Le serveur ne filtre que sur un rectangle : on applique ici le rayon exact
+      if (!userLocation) return [];
+      return activeStories.filter(story => distanceByStoryId[story.id] <= nearRadiusKm);
+    }
+    if (selectedFilter === 'Trending') {
+      return sortStoriesByTrending(activeStories, trendingNow);
+    }
     return activeStories.filter(story => 
       story.vibeTags.some(tag => tag.toLowerCase().includes(selectedFilter.toLowerCase()))
     );
-  }, [activeStories, selectedFilter]);
+  }, [activeStories, selectedFilter, userLocation, distanceByStoryId, nearRadiusKm, trendingNow]);
+
+  // Stories affichées dont les likes sont suivis en direct (max 100 : limite Realtime)
+  const liveLikesKey = useMemo(() => {
+    let visible: Story[] = [];
+    if (currentView === ViewState.FEED) {
+      visible = filteredStories;
+    } else if (currentView === ViewState.PROFILE && user) {
+      visible = activeStories.filter(s => s.userId === user.id);
+    }
+    return visible.slice(0, 100).map(s => s.id).sort().join(',');
+  }, [currentView, filteredStories, activeStories, user]);
+
+  // Compteurs de likes en direct : abonnement story_likes + requêtes groupées,
+  // avec repli sur du polling quand le socket Realtime est coupé
+  useEffect(() => {
+    if (!liveLikesKey) return;
+    const storyIds = liveLikesKey.split(',');
+
+    const batcher = createLikeCountBatcher({
+      // Compteurs en direct : une erreur ponctuelle est ignorée (le polling réessaie)
+      fetchCounts: async (ids) => {
+        const counts = await storiesService.getStoriesLikeCounts(ids);
+        return counts.ok ? counts.data : {};
+      },
+      onCounts: (counts) => {
+        // Ne pas écraser l'état optimiste d'un like en cours d'envoi
+        const settled = Object.fromEntries(
+          Object.entries(counts).filter(([id]) => !likeCoalescerRef.current?.isPending(id))
+        );
+        setActiveStories(prev => applyLikeCounts(prev, settled));
+      }
+    });
+
+    let pollInterval: ReturnType<typeof setInterval> | null = null;
+    let disposed = false;
+    const stopPolling = () => {
+      if (pollInterval) {
+        clearInterval(pollInterval);
+        pollInterval = null;
+      }
+    };
+
+    const unsubscribe = realtimeService.subscribeToStoryLikes(
+      storyIds,
+      (storyId) => batcher.add(storyId ? [storyId] : storyIds),
+      (status) => {
+        // Statut reçu après le nettoyage : ne pas relancer de polling
+        if (disposed) return;
+        if (status === 'disconnected' && !pollInterval) {
+          pollInterval = setInterval(() => batcher.add(storyIds), LIKE_POLL_INTERVAL_MS);
+        } else if (status === 'connected' && pollInterval) {
+          stopPolling();
+          // Rattraper les likes manqués pendant la coupure
+          batcher.add(storyIds);
+        }
+      }
+    );
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+      stopPolling();
+      batcher.dispose();
+    };
+  }, [liveLikesKey]);
 
   if (showWelcome) {
      return (
@@ -582,7 +1005,13 @@ const App: React.FC = () => {
             <AuthView 
                 onLoginSuccess={handleLoginSuccess}
                 onCancel={() => setCurrentView(ViewState.FEED)}
-                targetAction={pendingView === ViewState.POST ? t('auth.action.post') : t('auth.action.profile')}
+                targetAction={
+                  pendingView === ViewState.POST
+                    ? t('auth.action.post')
+                    : pendingView === ViewState.MAP || pendingView === ViewState.SPOT
+                      ? t('auth.action.checkIn')
+                      : t('auth.action.profile')
+                }
             />
           );
 
@@ -590,15 +1019,44 @@ const App: React.FC = () => {
         return (
           <MapView 
             spots={displayedSpots} 
+            stories={activeStories}
             onSpotSelect={handleSpotSelectFromMap} 
+            onCheckIn={(spot) => {
+              void handleCheckIn(spot);
+            }}
             userLocation={userLocation} 
             cityName={cityName} 
-            knownNeighborhoods={KNOWN_NEIGHBORHOODS}
+            spotContext={spotContext}
           />
         );
       
       case ViewState.POST:
-        return <CreateView onClose={() => setCurrentView(ViewState.FEED)} onPostSuccess={handlePostSuccess} />;
+        return (
+          <CreateView
+            onClose={closeCreateView}
+            onPostSuccess={handlePostSuccess}
+            initialLocation={postLocation ?? undefined}
+          />
+        );
+
+      case ViewState.SPOT:
+        if (!liveSelectedSpot) return null;
+        return (
+          <SpotView
+            spot={liveSelectedSpot}
+            onBack={() => setCurrentView(ViewState.MAP)}
+            onOpenStory={(storyId) => {
+              const storyIndex = liveSelectedSpot.activeStories.findIndex(story => story.id === storyId);
+              if (storyIndex !== -1) setViewer({ spots: [liveSelectedSpot], spotIndex: 0, storyIndex });
+            }}
+            onPostHere={() => handlePostHere(liveSelectedSpot)}
+            onCheckIn={() => {
+              void handleCheckIn(liveSelectedSpot);
+            }}
+            isCheckedIn={!!user && liveSelectedSpot.activeCheckIns.some(c => c.userId === user.id)}
+            isCheckingIn={isCheckingIn}
+          />
+        );
       
       case ViewState.PROFILE:
         if (!user) return null; 
@@ -614,16 +1072,31 @@ const App: React.FC = () => {
                   void handleDeleteStory(id);
                 }}
                 likedStoryIds={likedStoryIds}
-                onToggleLikeStory={(storyId) => {
-                  void handleToggleLikeStory(storyId);
-                }}
+                onToggleLikeStory={handleToggleLikeStory}
+                queuedStoryIds={queuedStoryIds}
+                onOpenStory={(storyId) => openStoryInViewer(myStories, storyId)}
             />
         );
 
       case ViewState.FEED:
       default:
         return (
-          <div className="pb-24 pt-4 px-4 overflow-y-auto h-full no-scrollbar">
+          <div ref={feedScrollRef} className="pb-24 pt-4 px-4 overflow-y-auto h-full no-scrollbar">
+            {/* New Stories Pill */}
+            {newStories.length > 0 && (
+                <div className="sticky top-0 z-30 flex justify-center h-0">
+                    <button
+                        onClick={showNewStories}
+                        className="flex items-center space-x-1.5 px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white text-xs font-bold rounded-full shadow-lg shadow-purple-900/40 active:scale-95 transition-all animate-in fade-in slide-in-from-top-2"
+                    >
+                        <ArrowUp size={14} />
+                        <span>
+                            {newStories.length} {newStories.length === 1 ? t('app.feed.newStory') : t('app.feed.newStories')}
+                        </span>
+                    </button>
+                </div>
+            )}
+
             {/* Header */}
             <div className="flex items-center justify-between mb-6">
                 <div className="flex-1">
@@ -684,6 +1157,32 @@ const App: React.FC = () => {
                 ))}
             </div>
 
+            {/* Near Me radius */}
+            {selectedFilter === 'Near Me' && (
+                userLocation ? (
+                    <div className="flex items-center space-x-2 overflow-x-auto pb-4 mb-2 no-scrollbar">
+                        <span className="text-xs text-gray-500 whitespace-nowrap">{t('app.filter.radius')}</span>
+                        {NEAR_ME_RADII_KM.map(radius => (
+                            <button
+                                key={radius}
+                                onClick={() => handleNearRadiusChange(radius)}
+                                className={`px-3 py-1 rounded-full text-xs whitespace-nowrap transition-colors ${
+                                    nearRadiusKm === radius
+                                    ? 'bg-purple-600 text-white font-bold'
+                                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                                }`}
+                            >
+                                {formatDistance(radius)}
+                            </button>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-xs text-gray-500 pb-4 mb-2">
+                        {isLocating ? t('create.locating') : t('app.filter.nearMe.noLocation')}
+                    </p>
+                )
+            )}
+
             {/* Stories List */}
             <div className="space-y-4">
                 {filteredStories.length > 0 ? (
@@ -692,16 +1191,16 @@ const App: React.FC = () => {
                             key={story.id} 
                             story={story}
                             spot={spotByStoryId[story.id]}
+                            distanceKm={distanceByStoryId[story.id]}
                             currentUser={user}
-                            onClick={() => {}}
+                            onClick={() => openStoryInViewer(filteredStories, story.id)}
                             onDelete={(id) => {
                               void handleDeleteStory(id);
                             }}
                             hasLiked={likedStoryIds.has(story.id)}
-                            onToggleLike={() => {
-                              void handleToggleLikeStory(story.id);
-                            }}
+                            onToggleLike={() => handleToggleLikeStory(story.id)}
                             onReport={handleReportStory}
+                            isPending={queuedStoryIds.has(story.id)}
                         />
                     ))
                 ) : (
@@ -715,6 +1214,13 @@ const App: React.FC = () => {
                         </button>
                     </div>
                 )}
+
+                {/* Infinite scroll sentinel */}
+                {storiesCursor && (
+                    <div ref={loadMoreRef} className="flex justify-center py-6">
+                        {isLoadingMore && <Loader2 size={20} className="animate-spin text-gray-500" />}
+                    </div>
+                )}
             </div>
           </div>
         );
@@ -769,6 +1275,17 @@ const App: React.FC = () => {
             onReportSuccess={handleReportSuccess}
           />
         )}
+        {sharedStory && (
+          <StoryUnavailable isLoading={sharedStory === 'loading'} onClose={closeSharedStory} />
+        )}
+        {viewer && (
+          <StoryViewer
+            spots={viewer.spots}
+            initialSpotIndex={viewer.spotIndex}
+            initialStoryIndex={viewer.storyIndex}
+            onClose={closeViewer}
+          />
+        )}
     </div>
   );
 };
@@ -3,6 +3,7 @@ import { User } from '../types';
 import { X, User as UserIcon, ArrowRight, Sparkles } from './Icon';
 import { useLanguage } from '../translations';
 import { usersService } from '../services/supabaseService';
+import { useToast } from './Toast';
 
 interface AuthViewProps {
   onLoginSuccess: (user: User) => void;
@@ -12,6 +13,7 @@ interface AuthViewProps {
 
 const AuthView: React.FC<AuthViewProps> = ({ onLoginSuccess, onCancel, targetAction }) => {
   const { t } = useLanguage();
+  const { showError } = useToast();
   const [username, setUsername] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -20,43 +22,30 @@ const AuthView: React.FC<AuthViewProps> = ({ onLoginSuccess, onCancel, targetAct
     if (!username.trim()) return;
 
     setLoading(true);
-    
-    try {
-      // Créer un user anonyme dans Supabase
-      const avatarUrl = `https://api.dicebear.com/7.x/avataaars/svg?seed=${username}`;
-      const userId = await usersService.createAnonymousUser(username, avatarUrl);
-      
-      if (!userId) {
-        throw new Error('Failed to create user');
-      }
-      
-      // Sauvegarder userId dans localStorage
-      localStorage.setItem('spotlive_user_id', userId);
-      localStorage.setItem('spotlive_username', username);
-      
-      const user: User = {
-        id: userId,
-        username: username,
-        avatarUrl: avatarUrl,
-        isGuest: false
-      };
-      
-      onLoginSuccess(user);
-    } catch (error) {
-      console.error('Login error:', error);
-      // Fallback: créer un user local si Supabase échoue
-      const mockUser: User = {
-        id: `u_${Date.now()}`,
-        username: username,
-        avatarUrl: `https://api.dicebear.com/7.x/avataaars/svg?seed=${username}`,
-        isGuest: false
-      };
-      localStorage.setItem('spotlive_user_id', mockUser.id);
-      localStorage.setItem('spotlive_username', username);
-      onLoginSuccess(mockUser);
-    } finally {
-      setLoading(false);
+
+    // Créer un user anonyme dans Supabase
+    const avatarUrl = `https://api.dicebear.com/7.x/avataaars/svg?seed=${username}`;
+    const result = await usersService.createAnonymousUser(username, avatarUrl);
+    setLoading(false);
+
+    if (!result.ok) {
+      // Pas de user local de secours : son id serait refusé par le serveur
+      showError(result.error, 'errors.action.login');
+      return;
     }
+
+    // Sauvegarder userId dans localStorage
+    localStorage.setItem('spotlive_user_id', result.data);
+    localStorage.setItem('spotlive_username', username);
+
+    const user: User = {
+      id: result.data,
+      username: username,
+      avatarUrl: avatarUrl,
+      isGuest: false
+    };
+
+    onLoginSuccess(user);
   };
 
   return (
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { X, Globe, ChevronDown } from './Icon';
 import { getCountryName, getCountryFlag, POPULAR_COUNTRIES } from '../services/countryService';
 import { storiesService } from '../services/supabaseService';
+import { useToast } from './Toast';
 
 interface CountrySelectorProps {
   currentCountryCode: string | null;
@@ -16,6 +17,7 @@ const CountrySelector: React.FC<CountrySelectorProps> = ({
   onCountryChange,
   onClose
 }) => {
+  const { showError } = useToast();
   const [availableCountries, setAvailableCountries] = useState<Array<{ code: string; name: string; count: number }>>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -23,14 +25,13 @@ const CountrySelector: React.FC<CountrySelectorProps> = ({
   useEffect(() => {
     const loadCountries = async () => {
       setIsLoading(true);
-      try {
-        const countries = await storiesService.getAvailableCountries();
-        setAvailableCountries(countries);
-      } catch (error) {
-        console.error('Error loading countries:', error);
-      } finally {
-        setIsLoading(false);
+      const countries = await storiesService.getAvailableCountries();
+      if (countries.ok) {
+        setAvailableCountries(countries.data);
+      } else {
+        showError(countries.error, 'errors.action.loadCountries');
       }
+      setIsLoading(false);
     };
     
     loadCountries();
@@ -1,7 +1,20 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Camera, X, Loader2, Repeat, Check, MapPin, Zap, FlipHorizontal } from './Icon';
 import { useLanguage } from '../translations';
 import { mediaService } from '../services/supabaseService';
+import { geocodingService, placeNameFromAddress } from '../services/geocodingService';
+import { isRetryable } from '../services/result';
+import { processVideoFrame } from '../services/mediaProcessing';
+import {
+  MAX_VIDEO_DURATION_S,
+  TrimRange,
+  cameraConstraints,
+  createVideoRecorder,
+  needsReencode,
+  selectVideoProfile,
+  trimAndReencode
+} from '../services/videoProcessing';
+import { ImageRenditions } from '../types';
 
 interface CreateViewProps {
   onClose: () => void;
@@ -11,33 +24,48 @@ interface CreateViewProps {
     caption: string;
     hashtags: string[];
     media: string;
+    /** Photo sizes for srcset (uploaded URLs, data URLs while queued offline) */
+    imageRenditions?: ImageRenditions;
     /** Optional thumbnail/poster image for videos (data URL) */
     thumbnail?: string | null;
     isVideo: boolean;
+    /** Set when the video couldn't be uploaded (offline): the parent queues it */
+    videoBlob?: Blob;
+    /** Set when the photo or poster couldn't be uploaded (still data URLs): the parent queues it */
+    imagesPending?: boolean;
     lat: number;
     lng: number;
-  }) => void;
+  }) => Promise<boolean>;
+  /** Posting from a Spot screen: use the spot's location instead of GPS */
+  initialLocation?: { name: string; lat: number; lng: number };
 }
 
 type Mode = 'PHOTO' | 'VIDEO';
 
-const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
+// Shortest clip the trim handles can leave
+const MIN_TRIM_SECONDS = 1;
+
+const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess, initialLocation }) => {
   const { t } = useLanguage();
   const [mode, setMode] = useState<Mode>('PHOTO');
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [capturedMedia, setCapturedMedia] = useState<string | null>(null); 
+  const [capturedRenditions, setCapturedRenditions] = useState<ImageRenditions | null>(null);
+  const [isProcessingPhoto, setIsProcessingPhoto] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingSeconds, setRecordingSeconds] = useState(0);
   const [previewDuration, setPreviewDuration] = useState(0);
   const [previewCurrentTime, setPreviewCurrentTime] = useState(0);
   const [isPreviewPlaying, setIsPreviewPlaying] = useState(false);
+  const [trim, setTrim] = useState<TrimRange>({ start: 0, end: 0 });
+  const [encodingProgress, setEncodingProgress] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment'); // 'user' = front, 'environment' = back
   const [isSwitchingCamera, setIsSwitchingCamera] = useState(false);
   
-  const [locationName, setLocationName] = useState<string>(t('create.locating'));
-  const [currentLat, setCurrentLat] = useState<number | null>(null);
-  const [currentLng, setCurrentLng] = useState<number | null>(null);
+  const [locationName, setLocationName] = useState<string>(() => initialLocation?.name ?? t('create.locating'));
+  const [currentLat, setCurrentLat] = useState<number | null>(initialLocation?.lat ?? null);
+  const [currentLng, setCurrentLng] = useState<number | null>(initialLocation?.lng ?? null);
 
   const [caption, setCaption] = useState('');
   const [hashtags, setHashtags] = useState('');
@@ -50,6 +78,14 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
   const chunksRef = useRef<Blob[]>([]);
   const recordingStartMsRef = useRef<number | null>(null);
   const videoBlobRef = useRef<Blob | null>(null); // Store the original video blob for upload
+  const autoStopTimerRef = useRef<number | null>(null);
+  // MediaRecorder WebM files often report an Infinity duration: keep the measured one
+  const recordedDurationRef = useRef(0);
+  const trimRef = useRef(trim);
+  trimRef.current = trim;
+
+  // Resolution/bitrate for recording and re-encoding (picked once per session)
+  const videoProfile = useMemo(() => selectVideoProfile(), []);
 
   const isFrontCamera = facingMode === 'user';
 
@@ -90,6 +126,7 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
       setPreviewDuration(0);
       setPreviewCurrentTime(0);
       setIsPreviewPlaying(false);
+      setTrim({ start: 0, end: 0 });
       return;
     }
 
@@ -97,12 +134,19 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
     if (!el) return;
 
     const handleLoaded = () => {
-      const duration = Number.isFinite(el.duration) ? el.duration : 0;
+      const duration = Number.isFinite(el.duration) ? el.duration : recordedDurationRef.current;
       setPreviewDuration(duration);
       setPreviewCurrentTime(el.currentTime || 0);
+      setTrim({ start: 0, end: duration });
     };
 
     const handleTimeUpdate = () => {
+      const { start, end } = trimRef.current;
+      // Loop the preview inside the trimmed clip
+      if (end > 0 && el.currentTime >= end) {
+        el.pause();
+        el.currentTime = start;
+      }
       setPreviewCurrentTime(el.currentTime || 0);
     };
 
@@ -140,6 +184,10 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
     // This handler runs on a button press, which satisfies autoplay policies.
     try {
       if (el.paused) {
+        const { start, end } = trimRef.current;
+        if (end > 0 && (el.currentTime < start || el.currentTime >= end)) {
+          el.currentTime = start;
+        }
         await el.play();
       } else {
         el.pause();
@@ -159,26 +207,39 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
     }
   };
 
-  // 1. Initialize Location
+  // Trim handles: set the clip start/end at the scrubber position
+  const setTrimStartAtCurrent = () => {
+    setTrim(prev => ({ ...prev, start: Math.min(previewCurrentTime, Math.max(0, prev.end - MIN_TRIM_SECONDS)) }));
+  };
+
+  const setTrimEndAtCurrent = () => {
+    setTrim(prev => ({ ...prev, end: Math.max(previewCurrentTime, Math.min(previewDuration, prev.start + MIN_TRIM_SECONDS)) }));
+  };
+
+  const resetTrim = () => {
+    setTrim({ start: 0, end: previewDuration });
+  };
+
+  const isTrimmed = previewDuration > 0 && (trim.start > 0.05 || trim.end < previewDuration - 0.05);
+
+  // 1. Initialize Location (already known when posting from a spot)
+  const hasInitialLocation = !!initialLocation;
   useEffect(() => {
+    if (hasInitialLocation) return;
     navigator.geolocation.getCurrentPosition(
       async (pos) => {
         const { latitude, longitude } = pos.coords;
         setCurrentLat(latitude);
         setCurrentLng(longitude);
 
-        try {
-            // Fetch nearest POI/Address using OSM Nominatim
-            const response = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=18`);
-            const data = await response.json();
-            
-            // Construct a friendly name
-            const name = data.address?.amenity || data.address?.shop || data.address?.road || data.address?.neighbourhood || t('create.nearYou');
-            setLocationName(name);
-        } catch (e) {
-            console.warn("Location fetch failed", e);
+        // Nearest POI/address (building-level reverse geocoding, cached)
+        const place = await geocodingService.reverse(latitude, longitude, { zoom: 18 });
+        if (!place.ok) {
+            console.warn("Location fetch failed", place.error);
             setLocationName(t('create.nearYou'));
+            return;
         }
+        setLocationName(placeNameFromAddress(place.data.address) || t('create.nearYou'));
       },
       (err) => {
         console.warn("Location error:", err);
@@ -189,7 +250,7 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
       },
       { enableHighAccuracy: true }
     );
-  }, [t]);
+  }, [t, hasInitialLocation]);
 
   // 2. Initialize Camera
   useEffect(() => {
@@ -203,12 +264,14 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
         }
 
         const mediaStream = await navigator.mediaDevices.getUserMedia({
-          video: { 
-            facingMode: facingMode, 
-            aspectRatio: 9/16,
-            width: { ideal: 1920 },
-            height: { ideal: 1080 }
-          },
+          video: mode === 'VIDEO'
+            ? { facingMode: facingMode, aspectRatio: 9/16, ...cameraConstraints(videoProfile) }
+            : {
+                facingMode: facingMode, 
+                aspectRatio: 9/16,
+                width: { ideal: 1920 },
+                height: { ideal: 1080 }
+              },
           audio: mode === 'VIDEO'
         });
         
@@ -281,31 +344,37 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
 
   const handleCapture = async () => {
     if (mode === 'PHOTO') {
-      if (!videoRef.current) return;
-      const canvas = document.createElement('canvas');
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
+      if (!videoRef.current || isProcessingPhoto) return;
+      setIsProcessingPhoto(true);
+      try {
         // IMPORTANT (Instagram/Snapchat style):
         // - The LIVE preview is mirrored via CSS for the front camera (selfie UX).
         // - The FINAL captured photo must NOT be mirrored.
         //
         // Some mobile browsers can effectively provide a mirrored front-camera frame.
         // To guarantee correct output, we explicitly un-mirror the captured image
-        // for the front camera by flipping on the canvas draw step.
-        if (isFrontCamera) {
-          ctx.save();
-          ctx.translate(canvas.width, 0);
-          ctx.scale(-1, 1);
-          ctx.drawImage(videoRef.current, 0, 0);
-          ctx.restore();
-        } else {
-          ctx.drawImage(videoRef.current, 0, 0);
-        }
-        const base64 = canvas.toDataURL('image/jpeg', 0.8);
-        setCapturedMedia(base64);
+        // for the front camera when drawing it (mirror option).
+        //
+        // The frame is resized into thumb/feed/full sizes, each compressed under a
+        // byte budget that shrinks on slow networks (off the main thread when possible).
+        const image = await processVideoFrame(videoRef.current, { mirror: isFrontCamera });
+        const [full, feed, thumb] = await Promise.all([
+          mediaService.blobToDataURL(image.full.blob),
+          mediaService.blobToDataURL(image.feed.blob),
+          mediaService.blobToDataURL(image.thumb.blob)
+        ]);
+        setCapturedMedia(full);
+        setCapturedRenditions({
+          full: { url: full, width: image.full.width },
+          feed: { url: feed, width: image.feed.width },
+          thumb: { url: thumb, width: image.thumb.width }
+        });
         if (stream) stream.getTracks().forEach(track => track.stop());
+      } catch (error) {
+        console.error('Error processing photo:', error);
+        setUploadError('Could not capture the photo. Please retry.');
+      } finally {
+        setIsProcessingPhoto(false);
       }
     } else {
       // VIDEO MODE (FRONT & BACK — SAME LOGIC)
@@ -314,13 +383,20 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
       setIsRecording(true);
       chunksRef.current = [];
       
-      const recorder = new MediaRecorder(stream);
+      // Capped bitrate/resolution (see services/videoProcessing.ts) keeps uploads small
+      const recorder = createVideoRecorder(stream, videoProfile);
+      const startedAt = Date.now();
 
       recorder.ondataavailable = (e) => {
         if (e.data.size > 0) chunksRef.current.push(e.data);
       };
 
       recorder.onstop = () => {
+        if (autoStopTimerRef.current !== null) {
+          window.clearTimeout(autoStopTimerRef.current);
+          autoStopTimerRef.current = null;
+        }
+        recordedDurationRef.current = Math.min(MAX_VIDEO_DURATION_S, (Date.now() - startedAt) / 1000);
         const blob = new Blob(chunksRef.current, { type: recorder.mimeType });
         if (blob.size === 0) {
           setUploadError('Recording failed');
@@ -337,12 +413,13 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
       recorder.start(1000);
       mediaRecorderRef.current = recorder;
 
-      // Auto-stop after 15 seconds
-      setTimeout(() => {
+      // Auto-stop at the maximum story length
+      autoStopTimerRef.current = window.setTimeout(() => {
+        autoStopTimerRef.current = null;
         if (mediaRecorderRef.current?.state === 'recording') {
           mediaRecorderRef.current.stop();
         }
-      }, 15000);
+      }, MAX_VIDEO_DURATION_S * 1000);
     }
   };
 
@@ -357,6 +434,7 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
       URL.revokeObjectURL(capturedMedia);
     }
     setCapturedMedia(null);
+    setCapturedRenditions(null);
     setStream(null); 
     setCaption('');
     setHashtags('');
@@ -390,7 +468,10 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
     
     try {
       let mediaUrl = capturedMedia;
+      let imageRenditions: ImageRenditions | undefined = undefined;
       let thumbnail: string | null | undefined = undefined;
+      let queuedVideoBlob: Blob | undefined = undefined;
+      let imagesPending = false;
       const storyId = `story_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       
       // CRITICAL FIX: For videos, DO NOT persist as base64 data URL (often unplayable/too heavy).
@@ -401,49 +482,105 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
           if (videoBlobRef.current.size === 0) {
             throw new Error('Video blob is empty - recording may have failed');
           }
+
+          // Trim and/or shrink to the video profile before upload
+          let videoBlob = videoBlobRef.current;
+          const duration = previewDuration || recordedDurationRef.current;
+          const clip = trim.end > 0 ? trim : { start: 0, end: duration };
+          if (needsReencode(videoBlob, duration, clip, videoProfile)) {
+            setEncodingProgress(0);
+            try {
+              videoBlob = await trimAndReencode(videoBlob, clip, videoProfile, setEncodingProgress);
+            } catch (error) {
+              // A trim can't be honoured without re-encoding; a merely heavy file can still go as-is
+              if (isTrimmed) throw error;
+              console.warn('Video re-encode failed, uploading the original:', error);
+            } finally {
+              setEncodingProgress(null);
+            }
+          }
           
           console.log('Uploading video:', {
-            size: videoBlobRef.current.size,
-            type: videoBlobRef.current.type,
+            size: videoBlob.size,
+            type: videoBlob.type,
+            originalSize: videoBlobRef.current.size,
             storyId
           });
           
-          // Generate a lightweight poster thumbnail (stored as data URL in DB).
-          // This keeps `image_url` non-null and gives a stable poster frame.
-          thumbnail = await mediaService.createVideoThumbnail(videoBlobRef.current);
-
-          // Upload video blob -> Supabase Storage public URL (or null on failure)
-          const uploadedUrl = await mediaService.uploadVideo(videoBlobRef.current, storyId);
-          if (!uploadedUrl) {
-            console.error('Upload returned null URL');
-            throw new Error('Video upload failed: no URL returned');
+          // Poster frame, uploaded next to the video (kept as data URL only while queued offline)
+          thumbnail = await mediaService.createVideoThumbnail(videoBlob);
+          if (thumbnail) {
+            const poster = await mediaService.uploadDataURLImage(thumbnail, storyId, 'poster');
+            if (poster.ok) {
+              thumbnail = poster.data;
+            } else if (isRetryable(poster.error)) {
+              // Offline: the story is queued and the poster uploaded on replay
+              imagesPending = true;
+            } else {
+              // Not worth failing the post: the card falls back to the placeholder
+              console.warn('Poster upload failed:', poster.error);
+              thumbnail = null;
+            }
+          }
+
+          // Upload video blob -> Supabase Storage public URL
+          const upload = await mediaService.uploadVideo(videoBlob, storyId);
+          if (upload.ok) {
+            console.log('Video uploaded successfully:', upload.data);
+            mediaUrl = upload.data;
+          } else if (isRetryable(upload.error)) {
+            // Offline: keep the local blob URL for preview, the upload is queued
+            queuedVideoBlob = videoBlob;
+          } else {
+            throw new Error(t(`errors.${upload.error.kind}`));
           }
-          
-          console.log('Video uploaded successfully:', uploadedUrl);
-          mediaUrl = uploadedUrl;
         } catch (error) {
           console.error('Error uploading video:', error);
           setUploadError(`Video upload failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please retry.`);
           setLoading(false);
           return;
         }
+      } else if (mode === 'PHOTO') {
+        // Photos go to Storage too (every size): `image_url` holds a URL, not the base64 payload
+        const images = { imageUrl: capturedMedia, imageRenditions: capturedRenditions || undefined };
+        imageRenditions = images.imageRenditions;
+        const upload = await mediaService.uploadStoryImages(images, storyId, 'photo');
+        if (upload.ok) {
+          mediaUrl = upload.data.imageUrl;
+          imageRenditions = upload.data.imageRenditions;
+        } else if (!isRetryable(upload.error)) {
+          setUploadError(`Photo upload failed: ${t(`errors.${upload.error.kind}`)} Please retry.`);
+          setLoading(false);
+          return;
+        } else {
+          // Offline: the data URLs stay in the queued story and are uploaded on replay
+          imagesPending = true;
+        }
       }
       
       // Call onPostSuccess with the processed media URL
-      onPostSuccess({
+      // (the parent shows the error and keeps this view open on failure)
+      const posted = await onPostSuccess({
         storyId,
         locationName,
         caption,
         hashtags: hashtags.split(' ').filter(tag => tag.startsWith('#')),
         media: mediaUrl,
+        imageRenditions,
         thumbnail,
         isVideo: mode === 'VIDEO',
+        videoBlob: queuedVideoBlob,
+        imagesPending,
         lat: currentLat || 0,
         lng: currentLng || 0
       });
+      if (!posted) {
+        setLoading(false);
+        return;
+      }
       
       // Cleanup: revoke blob URL if it was a video
-      if (mode === 'VIDEO' && capturedMedia.startsWith('blob:')) {
+      if (mode === 'VIDEO' && capturedMedia.startsWith('blob:') && !queuedVideoBlob) {
         URL.revokeObjectURL(capturedMedia);
       }
     } catch (error) {
@@ -517,7 +654,9 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
                 <div className="flex items-center space-x-2 bg-black/50 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10">
                   <span className="w-2.5 h-2.5 rounded-full bg-red-500" />
                   <span className="text-xs font-black tracking-widest text-white">REC</span>
-                  <span className="text-xs font-bold text-white tabular-nums">{formatRecordingTime(recordingSeconds)}</span>
+                  <span className="text-xs font-bold text-white tabular-nums">
+                    {formatRecordingTime(recordingSeconds)} / {formatRecordingTime(MAX_VIDEO_DURATION_S)}
+                  </span>
                 </div>
               </div>
             )}
@@ -567,12 +706,56 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
                         }}
                         className="w-full"
                       />
+                      {/* Trimmed clip, drawn under the scrubber */}
+                      {previewDuration > 0 && (
+                        <div className="relative h-1.5 mt-1 rounded-full bg-white/10 overflow-hidden">
+                          <div
+                            className="absolute inset-y-0 bg-yellow-400/80"
+                            style={{
+                              left: `${(trim.start / previewDuration) * 100}%`,
+                              width: `${(Math.max(0, trim.end - trim.start) / previewDuration) * 100}%`
+                            }}
+                          />
+                        </div>
+                      )}
                       <div className="flex justify-between text-[10px] text-gray-200 mt-1 tabular-nums">
                         <span>{formatRecordingTime(Math.floor(previewCurrentTime))}</span>
                         <span>{formatRecordingTime(Math.floor(previewDuration))}</span>
                       </div>
                     </div>
                   </div>
+
+                  {/* Trim: scrub to a position, then set it as the clip start or end */}
+                  {previewDuration > 0 && (
+                    <div className="flex items-center gap-2 mt-3 text-xs">
+                      <button
+                        type="button"
+                        onClick={setTrimStartAtCurrent}
+                        className="px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-white font-semibold"
+                      >
+                        {t('create.trim.start')}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={setTrimEndAtCurrent}
+                        className="px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-white font-semibold"
+                      >
+                        {t('create.trim.end')}
+                      </button>
+                      <span className="flex-1 text-right text-gray-300 tabular-nums">
+                        {formatRecordingTime(Math.floor(trim.start))} – {formatRecordingTime(Math.ceil(trim.end))}
+                      </span>
+                      {isTrimmed && (
+                        <button
+                          type="button"
+                          onClick={resetTrim}
+                          className="px-2 py-1.5 rounded-full text-gray-300 hover:text-white"
+                        >
+                          {t('create.trim.reset')}
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </>
@@ -604,8 +787,11 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
                     {mode === 'PHOTO' ? (
                     <button 
                         onClick={handleCapture}
-                        className="w-20 h-20 rounded-full border-4 border-white bg-white/20 active:scale-95 transition-all shadow-lg ring-4 ring-black/20"
-                    />
+                        disabled={isProcessingPhoto}
+                        className="w-20 h-20 rounded-full border-4 border-white bg-white/20 active:scale-95 disabled:opacity-60 transition-all shadow-lg ring-4 ring-black/20 flex items-center justify-center"
+                    >
+                        {isProcessingPhoto && <Loader2 size={28} className="text-white animate-spin" />}
+                    </button>
                     ) : (
                     <button 
                         onClick={isRecording ? handleStopRecording : handleCapture}
@@ -666,7 +852,12 @@ const CreateView: React.FC<CreateViewProps> = ({ onClose, onPostSuccess }) => {
                     disabled={loading}
                     className="flex-1 h-12 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-full font-bold text-sm shadow-lg shadow-purple-900/40 active:scale-95 transition-all flex items-center justify-center space-x-2"
                 >
-                    {loading ? (
+                    {encodingProgress !== null ? (
+                        <>
+                            <Loader2 size={18} className="animate-spin" />
+                            <span className="tabular-nums">{t('create.optimizingVideo')} {Math.round(encodingProgress * 100)}%</span>
+                        </>
+                    ) : loading ? (
                         <Loader2 size={18} className="animate-spin" />
                     ) : (
                         <>
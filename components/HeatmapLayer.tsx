@@ -0,0 +1,48 @@
+import React, { useEffect, useRef } from 'react';
+import { Camera, Viewport, metersPerPixel, project, unproject, worldToScreen } from '../services/mapTiles';
+import { HeatPoint, HEAT_MAX_RADIUS_PX, HEAT_MIN_RADIUS_PX, HEAT_RADIUS_M, renderHeatmap } from '../services/heatmap';
+
+interface HeatmapLayerProps {
+  points: HeatPoint[];
+  camera: Camera;
+  viewport: Viewport;
+}
+
+// Canvas overlay redrawn on every camera change, so the heat follows pan and zoom
+const HeatmapLayer: React.FC<HeatmapLayerProps> = ({ points, camera, viewport }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const width = Math.round(viewport.width);
+    const height = Math.round(viewport.height);
+    // The heat is blurry anyway: one canvas pixel per CSS pixel keeps redraws cheap
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+
+    // Story radius on the ground, at the latitude of the map center
+    const centerLat = unproject(camera.center).lat;
+    const radiusPx = Math.min(
+      HEAT_MAX_RADIUS_PX,
+      Math.max(HEAT_MIN_RADIUS_PX, HEAT_RADIUS_M / metersPerPixel(centerLat, camera.zoom))
+    );
+
+    const projected = points.map(point => ({
+      ...worldToScreen(project(point.lat, point.lon), camera, viewport),
+      weight: point.weight
+    }));
+    renderHeatmap(ctx, projected, width, height, radiusPx);
+  }, [points, camera, viewport]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full pointer-events-none animate-in fade-in duration-300"
+    />
+  );
+};
+
+export default HeatmapLayer;
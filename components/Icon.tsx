@@ -33,7 +33,18 @@ import {
   ChevronDown,
   FlipHorizontal,
   Flag,
-  AlertTriangle
+  AlertTriangle,
+  ArrowUp,
+  WifiOff,
+  CloudUpload,
+  Volume2,
+  VolumeX,
+  ArrowLeft,
+  Users,
+  Flame,
+  Layers,
+  Play,
+  Pause
 } from 'lucide-react';
 
 export { 
@@ -71,5 +82,16 @@ export {
   ChevronDown,
   FlipHorizontal,
   Flag,
-  AlertTriangle
+  AlertTriangle,
+  ArrowUp,
+  WifiOff,
+  CloudUpload,
+  Volume2,
+  VolumeX,
+  ArrowLeft,
+  Users,
+  Flame,
+  Layers,
+  Play,
+  Pause
 };
\ No newline at end of file
@@ -1,114 +1,242 @@
-import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Spot } from '../types';
-import { MapPin, Navigation, Plus, Minus, LocateFixed, Zap, Search, X, Loader2 } from './Icon';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Spot, Story } from '../types';
+import { MapPin, Navigation, Plus, Minus, LocateFixed, Zap, Search, X, Loader2, Flame, Layers, Clock, Play, Pause, Users } from './Icon';
+import HeatmapLayer from './HeatmapLayer';
 import { useLanguage } from '../translations';
+import { rankSpotsByTrending } from '../services/trendingService';
+import { clusterSpots, SpotCluster } from '../services/spotClustering';
+import { buildHeatPoints } from '../services/heatmap';
+import { groupStoriesIntoSpots, SpotContext } from '../services/spotGrouping';
+import { countPeopleHere } from '../services/checkIns';
+import { STORY_LIFETIME_MS } from '../constants';
+import { geocodingService, PlaceSearchResult } from '../services/geocodingService';
+import { useToast } from './Toast';
+import {
+  Camera,
+  LatLon,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  WorldPoint,
+  clampZoom,
+  fitPoints,
+  getTileConfig,
+  project,
+  visibleTiles,
+  worldToScreen,
+  zoomAround
+} from '../services/mapTiles';
+
+// Nombre de spots affichés dans le classement "Trending"
+const TRENDING_SPOTS_LIMIT = 5;
+// Zoom appliqué en ouvrant un spot ou un résultat de recherche
+const FOCUS_ZOOM = 16;
+const SEARCH_ZOOM = 14;
+// Les noms de quartiers n'apparaissent qu'à l'échelle d'une ville
+const NEIGHBORHOOD_LABELS_MIN_ZOOM = 12;
+// Inertie du déplacement : vitesse conservée toutes les 16 ms, et seuil d'arrêt (px/ms)
+const PAN_FRICTION = 0.92;
+const PAN_MIN_SPEED = 0.02;
+// Déplacement au-delà duquel un appui devient un glissé (pas de clic sur les marqueurs)
+const DRAG_SLOP_PX = 5;
+// Marge hors écran dans laquelle les marqueurs restent rendus
+const OFFSCREEN_MARGIN_PX = 200;
+// Préférence "carte de chaleur" mémorisée entre les sessions
+const HEATMAP_STORAGE_KEY = 'spotlive_map_heatmap';
+// Relecture des 24 h : 30 min de temps simulé par seconde à la vitesse 1×
+const REPLAY_BASE_RATE = 30 * 60;
+const REPLAY_SPEEDS = [1, 2, 4];
+
+const tileConfig = getTileConfig();
 
 interface MapViewProps {
   spots: Spot[];
+  /** Loaded stories, replayed by the 24h timeline (grouped like App's live spots) */
+  stories: Story[];
   onSpotSelect: (spot: Spot) => void;
+  /** "I'm here" on a spot with no story yet */
+  onCheckIn: (spot: Spot) => void;
   userLocation: { lat: number, lng: number } | null;
   cityName: string;
-  knownNeighborhoods?: { name: string, lat: number, lon: number }[];
+  // Neighborhoods and persistent spots, to group replayed stories like the live map
+  spotContext: SpotContext;
 }
 
-const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, cityName, knownNeighborhoods = [] }) => {
+const easeOutCubic = (t: number) => 1 - (1 - t) ** 3;
+
+const MapView: React.FC<MapViewProps> = ({ spots: liveSpots, stories, onSpotSelect, onCheckIn, userLocation, cityName, spotContext }) => {
   const { t } = useLanguage();
+  const { showError } = useToast();
   const containerRef = useRef<HTMLDivElement>(null);
   const [selectedSpotId, setSelectedSpotId] = useState<string | null>(null);
   
   // Search State
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<any[]>([]);
+  const [searchResults, setSearchResults] = useState<PlaceSearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [searchedLocation, setSearchedLocation] = useState<{lat: number, lon: number, name: string} | null>(null);
-  const justSearched = useRef(false);
 
-  // Viewport State
-  const [scale, setScale] = useState(1);
-  const [offset, setOffset] = useState({ x: 0, y: 0 });
-  const [mapBounds, setMapBounds] = useState({ minLat: 0, maxLat: 0, minLon: 0, maxLon: 0 });
+  // Heatmap State
+  const [showHeatmap, setShowHeatmap] = useState(() => localStorage.getItem(HEATMAP_STORAGE_KEY) === 'true');
 
-  // Dragging State
-  const isDragging = useRef(false);
-  const lastPos = useRef({ x: 0, y: 0 });
+  // Replay State: the time shown on the map (null = live)
+  const [replayWindow, setReplayWindow] = useState<{ start: number; end: number } | null>(null);
+  const [replayTime, setReplayTime] = useState(0);
+  const [isReplayPlaying, setIsReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(REPLAY_SPEEDS[0]);
 
-  // Calculate Map Bounds to fit all spots + user + searched location
+  // Spots as they were at the replay time: stories posted by then, vibe computed at that moment
+  const spots = useMemo(() => {
+    if (!replayWindow) return liveSpots;
+    return groupStoriesIntoSpots(stories.filter(s => s.timestamp <= replayTime), spotContext, replayTime).spots;
+  }, [replayWindow, liveSpots, stories, replayTime, spotContext]);
+
+  // Viewport State
+  const [camera, setCamera] = useState<Camera>(() => ({ center: project(0, 0), zoom: MIN_ZOOM }));
+  const cameraRef = useRef(camera);
+  cameraRef.current = camera;
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+  // Until the user moves the map, it keeps fitting every spot as data arrives
+  const userMovedRef = useRef(false);
+  const animationRef = useRef<number | null>(null);
+
+  // Gesture State
+  const pointers = useRef(new Map<number, WorldPoint>());
+  const lastPinch = useRef<{ distance: number; mid: WorldPoint } | null>(null);
+  const velocity = useRef({ x: 0, y: 0, time: 0 });
+  const dragDistance = useRef(0);
+
+  // Track the container size: projection and clustering work in screen pixels
   useEffect(() => {
-    if (!userLocation && spots.length === 0 && !searchedLocation) return;
-
-    // Start with User location or first spot or searched location
-    let minLat = userLocation ? userLocation.lat : (searchedLocation ? searchedLocation.lat : spots[0].latitude);
-    let maxLat = minLat;
-    let minLon = userLocation ? userLocation.lng : (searchedLocation ? searchedLocation.lon : spots[0].longitude);
-    let maxLon = minLon;
-
-    const points = [...spots];
-    if (userLocation) points.push({ latitude: userLocation.lat, longitude: userLocation.lng } as any);
-    if (searchedLocation) points.push({ latitude: searchedLocation.lat, longitude: searchedLocation.lon } as any);
-
-    points.forEach(p => {
-        if (p.latitude < minLat) minLat = p.latitude;
-        if (p.latitude > maxLat) maxLat = p.latitude;
-        if (p.longitude < minLon) minLon = p.longitude;
-        if (p.longitude > maxLon) maxLon = p.longitude;
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setViewport({ width, height });
     });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const stopAnimation = () => {
+    if (animationRef.current !== null) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+  };
 
-    // Add padding (approx 10-20%)
-    const latSpan = Math.max(0.01, maxLat - minLat); // Min span to avoid zoom infinite
-    const lonSpan = Math.max(0.01, maxLon - minLon);
+  useEffect(() => stopAnimation, []);
+
+  // Smooth camera move (replaces the old CSS transform transition)
+  const animateTo = useCallback((target: Camera, durationMs = 450) => {
+    stopAnimation();
+    const from = cameraRef.current;
+    const start = performance.now();
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - start) / durationMs);
+      const k = easeOutCubic(progress);
+      setCamera({
+        center: {
+          x: from.center.x + (target.center.x - from.center.x) * k,
+          y: from.center.y + (target.center.y - from.center.y) * k
+        },
+        zoom: from.zoom + (target.zoom - from.zoom) * k
+      });
+      animationRef.current = progress < 1 ? requestAnimationFrame(step) : null;
+    };
+    animationRef.current = requestAnimationFrame(step);
+  }, []);
 
-    setMapBounds({
-        minLat: minLat - latSpan * 0.2,
-        maxLat: maxLat + latSpan * 0.2,
-        minLon: minLon - lonSpan * 0.2,
-        maxLon: maxLon + lonSpan * 0.2
-    });
-  }, [spots, userLocation, searchedLocation]);
+  // Everything the "fit" view should show: spots, user, searched place
+  const fitTargets = useMemo(() => {
+    const points: LatLon[] = liveSpots.map(s => ({ lat: s.latitude, lon: s.longitude }));
+    if (userLocation) points.push({ lat: userLocation.lat, lon: userLocation.lng });
+    if (searchedLocation) points.push({ lat: searchedLocation.lat, lon: searchedLocation.lon });
+    return points;
+  }, [liveSpots, userLocation, searchedLocation]);
 
+  useEffect(() => {
+    if (userMovedRef.current || fitTargets.length === 0 || !viewport.width || !viewport.height) return;
+    setCamera(fitPoints(fitTargets, viewport));
+  }, [fitTargets, viewport]);
 
-  // Normalize lat/long to percentage relative to dynamic bounds
-  const getPosition = (lat: number, lon: number) => {
-    const { minLat, maxLat, minLon, maxLon } = mapBounds;
-    // Prevent division by zero
-    const latDiff = maxLat - minLat || 1;
-    const lonDiff = maxLon - minLon || 1;
+  // Screen position (px inside the container) of a lat/lon
+  const getPosition = (lat: number, lon: number) => worldToScreen(project(lat, lon), camera, viewport);
 
-    const top = ((maxLat - lat) / latDiff) * 100;
-    const left = ((lon - minLon) / lonDiff) * 100;
+  const isOnScreen = ({ x, y }: WorldPoint) =>
+    x > -OFFSCREEN_MARGIN_PX && x < viewport.width + OFFSCREEN_MARGIN_PX &&
+    y > -OFFSCREEN_MARGIN_PX && y < viewport.height + OFFSCREEN_MARGIN_PX;
 
-    return { 
-        topPct: top,
-        leftPct: left
-    };
+  // Heat from active stories (spots are rebuilt every minute, which refreshes the recency weights)
+  const heatPoints = useMemo(
+    () => (showHeatmap ? buildHeatPoints(spots, replayWindow ? replayTime : Date.now()) : []),
+    [spots, showHeatmap, replayWindow, replayTime]
+  );
+
+  const toggleHeatmap = () => {
+    const next = !showHeatmap;
+    setShowHeatmap(next);
+    localStorage.setItem(HEATMAP_STORAGE_KEY, String(next));
   };
 
-  // Auto-focus on searched location when it changes and bounds update
+  // Replay playback: advance the clock every frame, stop at "now"
+  useEffect(() => {
+    if (!replayWindow || !isReplayPlaying) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const elapsed = (now - last) * REPLAY_BASE_RATE * replaySpeed;
+      last = now;
+      setReplayTime(prev => Math.min(replayWindow.end, prev + elapsed));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [replayWindow, isReplayPlaying, replaySpeed]);
+
   useEffect(() => {
-    if (justSearched.current && searchedLocation && containerRef.current) {
-        const { width, height } = containerRef.current.getBoundingClientRect();
-        const { topPct, leftPct } = getPosition(searchedLocation.lat, searchedLocation.lon);
-        
-        const targetScale = 3; 
-        
-        const spotX = (leftPct / 100) * width;
-        const spotY = (topPct / 100) * height;
-
-        const targetX = (width / 2) - (spotX * targetScale);
-        const targetY = (height / 2) - (spotY * targetScale);
-
-        setScale(targetScale);
-        setOffset({ x: targetX, y: targetY });
-        
-        justSearched.current = false;
+    if (replayWindow && replayTime >= replayWindow.end) setIsReplayPlaying(false);
+  }, [replayWindow, replayTime]);
+
+  const openReplay = () => {
+    const end = Date.now();
+    setReplayWindow({ start: end - STORY_LIFETIME_MS, end });
+    setReplayTime(end - STORY_LIFETIME_MS);
+    setIsReplayPlaying(true);
+  };
+
+  const closeReplay = () => {
+    setReplayWindow(null);
+    setIsReplayPlaying(false);
+  };
+
+  const toggleReplayPlaying = () => {
+    // Play again from the start once the replay reached "now"
+    if (!isReplayPlaying && replayWindow && replayTime >= replayWindow.end) {
+      setReplayTime(replayWindow.start);
     }
- }, [mapBounds, searchedLocation]); 
+    setIsReplayPlaying(!isReplayPlaying);
+  };
 
+  const cycleReplaySpeed = () => {
+    setReplaySpeed(REPLAY_SPEEDS[(REPLAY_SPEEDS.indexOf(replaySpeed) + 1) % REPLAY_SPEEDS.length]);
+  };
+
+  const formatReplayTime = (time: number) =>
+    new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const tiles = useMemo(
+    () => (viewport.width && viewport.height ? visibleTiles(camera, viewport, tileConfig.url) : []),
+    [camera, viewport]
+  );
 
-  // Calculate Neighborhood Labels (Combining Static Known & Dynamic)
+  // Calculate Neighborhood Labels (Combining Registry & Dynamic)
+  const { neighborhoods } = spotContext;
   const neighborhoodLabels = useMemo(() => {
-    const labels = [...knownNeighborhoods];
-    const knownNames = new Set(knownNeighborhoods.map(k => k.name));
+    const labels = neighborhoods.map(({ name, lat, lon }) => ({ name, lat, lon }));
+    const knownNames = new Set(neighborhoods.map(k => k.name));
     
     // Dynamic groups for unknown areas (e.g., Paris)
     const groups: Record<string, { latSum: number, lonSum: number, count: number }> = {};
@@ -134,86 +262,227 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
     });
 
     return labels;
-  }, [spots, knownNeighborhoods]);
+  }, [spots, neighborhoods]);
+
+  // Trending ranking (vibeScore is the time-decayed trending score)
+  const trendingSpots = useMemo(
+    () => rankSpotsByTrending(spots).filter(s => s.vibeScore > 0).slice(0, TRENDING_SPOTS_LIMIT),
+    [spots]
+  );
+  const trendingRankById = useMemo(
+    () => new Map(trendingSpots.map((spot, index) => [spot.id, index + 1])),
+    [trendingSpots]
+  );
+
+  // Merge markers that would overlap at the current zoom. Distances are measured in world
+  // pixels at that zoom, so panning never reshuffles clusters. The selected spot always
+  // stays on its own so its popup remains reachable; at max zoom nothing is merged anymore.
+  const zoom = camera.zoom;
+  const { clusters, singleSpotIds } = useMemo(() => {
+    if (zoom >= MAX_ZOOM) {
+      return { clusters: [] as SpotCluster[], singleSpotIds: new Set(spots.map(s => s.id)) };
+    }
+    const scale = 2 ** zoom;
+    const all = clusterSpots(
+      spots.filter(s => s.id !== selectedSpotId),
+      spot => {
+        const world = project(spot.latitude, spot.longitude);
+        return { x: world.x * scale, y: world.y * scale };
+      }
+    );
+    const singles = new Set(all.filter(c => c.spots.length === 1).map(c => c.spots[0].id));
+    if (selectedSpotId) singles.add(selectedSpotId);
+    return { clusters: all.filter(c => c.spots.length > 1), singleSpotIds: singles };
+  }, [spots, zoom, selectedSpotId]);
+
+  // Draw the highest-ranked spots last so they stay on top
+  const spotsByPaintOrder = useMemo(
+    () => rankSpotsByTrending(spots).reverse().filter(s => singleSpotIds.has(s.id)),
+    [spots, singleSpotIds]
+  );
 
   // --- Search Logic ---
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!searchQuery.trim()) return;
     setIsSearching(true);
-    try {
-        const res = await fetch(`https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(searchQuery)}`);
-        const data = await res.json();
-        setSearchResults(data);
-    } catch(e) {
-        console.error(e);
-    } finally {
-        setIsSearching(false);
+    const result = await geocodingService.search(searchQuery);
+    setIsSearching(false);
+    if (result.ok) {
+        setSearchResults(result.data);
+    } else {
+        showError(result.error, 'errors.action.searchPlace');
     }
   };
 
-  const selectResult = (result: any) => {
-    const lat = parseFloat(result.lat);
-    const lon = parseFloat(result.lon);
-    setSearchedLocation({ lat, lon, name: result.display_name.split(',')[0] });
+  const selectResult = (result: PlaceSearchResult) => {
+    const { lat, lon } = result;
+    setSearchedLocation({ lat, lon, name: result.name });
     setSearchResults([]);
     setIsSearchOpen(false);
     setSearchQuery('');
-    justSearched.current = true;
+    userMovedRef.current = true;
+    animateTo({ center: project(lat, lon), zoom: SEARCH_ZOOM });
   };
 
   // --- Interaction Handlers ---
 
+  const toLocal = (e: React.PointerEvent | React.WheelEvent): WorldPoint => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) };
+  };
+
+  const panBy = (dx: number, dy: number) => {
+    setCamera(prev => {
+      const scale = 2 ** prev.zoom;
+      return { ...prev, center: { x: prev.center.x - dx / scale, y: prev.center.y - dy / scale } };
+    });
+  };
+
+  // Keep gliding after a fling, slowing down every frame
+  const startInertia = () => {
+    let { x: vx, y: vy } = velocity.current;
+    if (Math.hypot(vx, vy) < PAN_MIN_SPEED || performance.now() - velocity.current.time > 50) return;
+    let last = performance.now();
+    const step = (now: number) => {
+      const dt = now - last;
+      last = now;
+      panBy(vx * dt, vy * dt);
+      const decay = PAN_FRICTION ** (dt / 16);
+      vx *= decay;
+      vy *= decay;
+      animationRef.current = Math.hypot(vx, vy) < PAN_MIN_SPEED ? null : requestAnimationFrame(step);
+    };
+    animationRef.current = requestAnimationFrame(step);
+  };
+
+  const pinchState = () => {
+    const [a, b] = [...pointers.current.values()];
+    return {
+      distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+      mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+    };
+  };
+
   const handlePointerDown = (e: React.PointerEvent) => {
-    isDragging.current = true;
-    lastPos.current = { x: e.clientX, y: e.clientY };
+    stopAnimation();
+    pointers.current.set(e.pointerId, toLocal(e));
+    if (pointers.current.size === 1) dragDistance.current = 0;
+    velocity.current = { x: 0, y: 0, time: performance.now() };
+    lastPinch.current = pointers.current.size === 2 ? pinchState() : null;
     (e.target as Element).setPointerCapture(e.pointerId);
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
-    if (!isDragging.current) return;
-    const dx = e.clientX - lastPos.current.x;
-    const dy = e.clientY - lastPos.current.y;
-    lastPos.current = { x: e.clientX, y: e.clientY };
-    
-    setOffset(prev => ({ x: prev.x + dx, y: prev.y + dy }));
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    const current = toLocal(e);
+    pointers.current.set(e.pointerId, current);
+    userMovedRef.current = true;
+
+    // Two fingers: zoom around their midpoint and follow it
+    if (pointers.current.size === 2 && lastPinch.current) {
+      const pinch = pinchState();
+      const from = lastPinch.current;
+      dragDistance.current += Math.hypot(pinch.mid.x - from.mid.x, pinch.mid.y - from.mid.y) + Math.abs(pinch.distance - from.distance);
+      setCamera(prev => {
+        const zoomed = zoomAround(prev, prev.zoom + Math.log2(pinch.distance / from.distance), from.mid, viewportRef.current);
+        const scale = 2 ** zoomed.zoom;
+        return {
+          ...zoomed,
+          center: {
+            x: zoomed.center.x - (pinch.mid.x - from.mid.x) / scale,
+            y: zoomed.center.y - (pinch.mid.y - from.mid.y) / scale
+          }
+        };
+      });
+      lastPinch.current = pinch;
+      return;
+    }
+
+    const dx = current.x - previous.x;
+    const dy = current.y - previous.y;
+    dragDistance.current += Math.hypot(dx, dy);
+    panBy(dx, dy);
+
+    // Smoothed pointer speed (px/ms) for the inertia
+    const now = performance.now();
+    const dt = Math.max(1, now - velocity.current.time);
+    velocity.current = {
+      x: velocity.current.x * 0.2 + (dx / dt) * 0.8,
+      y: velocity.current.y * 0.2 + (dy / dt) * 0.8,
+      time: now
+    };
   };
 
   const handlePointerUp = (e: React.PointerEvent) => {
-    isDragging.current = false;
+    pointers.current.delete(e.pointerId);
     (e.target as Element).releasePointerCapture(e.pointerId);
+    if (pointers.current.size === 1) {
+      // Pinch ended: the remaining finger pans from here, without a jump
+      lastPinch.current = null;
+      velocity.current = { x: 0, y: 0, time: performance.now() };
+    } else if (pointers.current.size === 0 && dragDistance.current > DRAG_SLOP_PX) {
+      startInertia();
+    }
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    lastPinch.current = null;
+  };
+
+  // A drag that ends on a marker must not open it
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (dragDistance.current > DRAG_SLOP_PX) {
+      e.stopPropagation();
+      dragDistance.current = 0;
+    }
   };
 
   const handleWheel = (e: React.WheelEvent) => {
-    const ZOOM_SPEED = 0.001;
-    const newScale = Math.max(0.5, Math.min(8, scale - e.deltaY * ZOOM_SPEED));
-    setScale(newScale);
+    const ZOOM_SPEED = 0.002;
+    stopAnimation();
+    userMovedRef.current = true;
+    const anchor = toLocal(e);
+    setCamera(prev => zoomAround(prev, prev.zoom - e.deltaY * ZOOM_SPEED, anchor, viewportRef.current));
   };
 
-  const zoomIn = () => setScale(s => Math.min(8, s * 1.2));
-  const zoomOut = () => setScale(s => Math.max(0.5, s / 1.2));
+  const zoomBy = (delta: number) => {
+    userMovedRef.current = true;
+    const current = cameraRef.current;
+    animateTo({ center: current.center, zoom: clampZoom(current.zoom + delta) }, 250);
+  };
+  const zoomIn = () => zoomBy(1);
+  const zoomOut = () => zoomBy(-1);
   
   const centerMap = () => {
-      setOffset({ x: 0, y: 0 });
-      setScale(1);
       setSelectedSpotId(null);
+      if (fitTargets.length === 0 || !viewport.width) return;
+      userMovedRef.current = false;
+      animateTo(fitPoints(fitTargets, viewport));
   };
 
   const focusOnSpot = (spot: Spot) => {
-    if (!containerRef.current) return;
-    const { width, height } = containerRef.current.getBoundingClientRect();
-    const { topPct, leftPct } = getPosition(spot.latitude, spot.longitude);
-    const targetScale = 3; 
-    
-    const spotX = (leftPct / 100) * width;
-    const spotY = (topPct / 100) * height;
-
-    const targetX = (width / 2) - (spotX * targetScale);
-    const targetY = (height / 2) - (spotY * targetScale);
-
     setSelectedSpotId(spot.id);
-    setScale(targetScale);
-    setOffset({ x: targetX, y: targetY });
+    userMovedRef.current = true;
+    animateTo({
+      center: project(spot.latitude, spot.longitude),
+      zoom: Math.max(cameraRef.current.zoom, FOCUS_ZOOM)
+    });
+  };
+
+  // Zoom until the cluster's spots fit on screen (at least one level closer, so it always splits up)
+  const focusOnCluster = (cluster: SpotCluster) => {
+    const fit = fitPoints(
+      cluster.spots.map(s => ({ lat: s.latitude, lon: s.longitude })),
+      viewport,
+      64,
+      MAX_ZOOM
+    );
+    setSelectedSpotId(null);
+    userMovedRef.current = true;
+    animateTo({ center: fit.center, zoom: clampZoom(Math.max(fit.zoom, cameraRef.current.zoom + 1)) });
   };
 
   const getSpotActivityLevel = (score: number) => {
@@ -225,56 +494,54 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
   return (
     <div 
         ref={containerRef}
-        className="relative w-full h-full bg-[#0a0a0f] overflow-hidden touch-none"
+        className="relative w-full h-full bg-[#0a0a0f] overflow-hidden touch-none select-none"
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onClickCapture={handleClickCapture}
         onWheel={handleWheel}
     >
-      {/* Decorative Map Background (Transform Layer) */}
-      <div 
-        className="w-full h-full origin-top-left transition-transform duration-500 ease-out will-change-transform"
-        style={{
-            transform: `translate3d(${offset.x}px, ${offset.y}px, 0) scale(${scale})`,
-            width: '100%',
-            height: '100%'
-        }}
+      {/* Tile Layer (raster XYZ tiles, light tiles inverted to match the dark theme) */}
+      <div
+        className="absolute inset-0 pointer-events-none"
+        style={tileConfig.dark ? undefined : { filter: 'invert(1) hue-rotate(180deg) brightness(0.85) contrast(0.9)' }}
       >
-        {/* Abstract Global Map Grid */}
-        <div className="absolute inset-[-50%] w-[200%] h-[200%] pointer-events-none opacity-40">
-            <svg width="100%" height="100%" xmlns="http://www.w3.org/2000/svg">
-                <defs>
-                    <pattern id="grid" width="50" height="50" patternUnits="userSpaceOnUse">
-                        <path d="M 50 0 L 0 0 0 50" fill="none" stroke="#1f2937" strokeWidth="0.5"/>
-                        <circle cx="0" cy="0" r="1" fill="#374151" />
-                    </pattern>
-                    <radialGradient id="worldGlow" cx="50%" cy="50%" r="50%">
-                        <stop offset="0%" stopColor="#1f2937" stopOpacity="0.3"/>
-                        <stop offset="100%" stopColor="#0a0a0f" stopOpacity="0"/>
-                    </radialGradient>
-                </defs>
-                
-                <rect width="100%" height="100%" fill="#050505" />
-                <rect width="100%" height="100%" fill="url(#worldGlow)" />
-                <rect width="100%" height="100%" fill="url(#grid)" />
-            </svg>
-        </div>
+        {tiles.map(tile => (
+            <img
+                key={tile.key}
+                src={tile.url}
+                alt=""
+                draggable={false}
+                decoding="async"
+                className="absolute max-w-none"
+                // Half a pixel of overlap hides the seams between stretched tiles
+                style={{ left: tile.left, top: tile.top, width: tile.size + 0.5, height: tile.size + 0.5 }}
+                onError={(e) => { e.currentTarget.style.visibility = 'hidden'; }}
+            />
+        ))}
+      </div>
+
+      {/* Heatmap Layer */}
+      {showHeatmap && <HeatmapLayer points={heatPoints} camera={camera} viewport={viewport} />}
 
+      {/* Markers Layer */}
+      <div className="absolute inset-0">
         {/* Neighborhood Labels (Merged Static & Dynamic) */}
         {neighborhoodLabels.map(hood => {
-            const { topPct, leftPct } = getPosition(hood.lat, hood.lon);
-            const isVisible = scale > 0.7;
+            const position = getPosition(hood.lat, hood.lon);
+            const isVisible = camera.zoom >= NEIGHBORHOOD_LABELS_MIN_ZOOM;
             
-            // Only render if roughly within bounds (with generous padding) to avoid rendering global list
-            if (topPct < -50 || topPct > 150 || leftPct < -50 || leftPct > 150) return null;
+            // Only render labels near the viewport to avoid rendering the global list
+            if (!isOnScreen(position)) return null;
 
             return (
                 <div 
                     key={hood.name}
                     className={`absolute transform -translate-x-1/2 -translate-y-1/2 pointer-events-none transition-opacity duration-500 z-10 ${isVisible ? 'opacity-100' : 'opacity-0'}`}
-                    style={{ top: `${topPct}%`, left: `${leftPct}%` }}
+                    style={{ top: position.y, left: position.x }}
                 >
-                     <div style={{ transform: `scale(${1/scale})` }}>
+                     <div>
                         <span className="text-4xl font-black tracking-widest text-white/30 select-none uppercase drop-shadow-sm whitespace-nowrap">
                             {hood.name}
                         </span>
@@ -288,11 +555,11 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
             <div 
                 className="absolute transform -translate-x-1/2 -translate-y-1/2 z-10"
                 style={{ 
-                    top: `${getPosition(userLocation.lat, userLocation.lng).topPct}%`, 
-                    left: `${getPosition(userLocation.lat, userLocation.lng).leftPct}%` 
+                    top: getPosition(userLocation.lat, userLocation.lng).y, 
+                    left: getPosition(userLocation.lat, userLocation.lng).x 
                 }}
             >
-                <div style={{ transform: `scale(${1/scale})` }} className="relative flex flex-col items-center">
+                <div className="relative flex flex-col items-center">
                     <div className="absolute w-16 h-16 bg-blue-500/20 rounded-full animate-[ping_3s_ease-in-out_infinite]"></div>
                     <div className="absolute w-12 h-12 bg-blue-500/30 rounded-full animate-[pulse_2s_ease-in-out_infinite]"></div>
                     <div className="w-5 h-5 bg-blue-500 rounded-full border-[3px] border-[#0a0a0f] shadow-[0_0_15px_rgba(59,130,246,0.6)] z-10"></div>
@@ -308,11 +575,11 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
             <div 
                 className="absolute transform -translate-x-1/2 -translate-y-1/2 z-10"
                 style={{ 
-                    top: `${getPosition(searchedLocation.lat, searchedLocation.lon).topPct}%`, 
-                    left: `${getPosition(searchedLocation.lat, searchedLocation.lon).leftPct}%` 
+                    top: getPosition(searchedLocation.lat, searchedLocation.lon).y, 
+                    left: getPosition(searchedLocation.lat, searchedLocation.lon).x 
                 }}
             >
-                <div style={{ transform: `scale(${1/scale})` }} className="relative flex flex-col items-center">
+                <div className="relative flex flex-col items-center">
                     <MapPin size={32} className="text-red-500 drop-shadow-lg fill-red-500/20" />
                     <div className="absolute -bottom-6 bg-red-900/80 backdrop-blur px-2 py-0.5 rounded-full border border-red-500/30 text-[10px] font-bold text-red-200 whitespace-nowrap shadow-lg">
                         {searchedLocation.name}
@@ -322,10 +589,13 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
         )}
 
         {/* Spots */}
-        {spots.map((spot) => {
-            const { topPct, leftPct } = getPosition(spot.latitude, spot.longitude);
+        {spotsByPaintOrder.map((spot) => {
+            const position = getPosition(spot.latitude, spot.longitude);
             const isSelected = selectedSpotId === spot.id;
+            if (!isSelected && !isOnScreen(position)) return null;
+            const trendingRank = trendingRankById.get(spot.id);
             const storyCount = spot.activeStories.length;
+            const peopleHere = countPeopleHere(spot.activeCheckIns);
             const activity = getSpotActivityLevel(spot.vibeScore);
             
             let sizeClass = "w-8 h-8";
@@ -346,13 +616,13 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
             <div 
                 key={spot.id}
                 className="absolute transform -translate-x-1/2 -translate-y-1/2 flex flex-col items-center cursor-pointer z-20 group"
-                style={{ top: `${topPct}%`, left: `${leftPct}%` }}
+                style={{ top: position.y, left: position.x }}
                 onClick={(e) => {
                     e.stopPropagation(); 
                     focusOnSpot(spot);
                 }}
             >
-                <div style={{ transform: `scale(${1/scale})` }} className="relative flex flex-col items-center justify-center">
+                <div className="relative flex flex-col items-center justify-center">
                     
                     {activity === 'HOT' && (
                         <>
@@ -366,7 +636,16 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
                         ${sizeClass} ${colorClass} ${glowColor} ${isSelected ? 'scale-110 ring-4 ring-white/20' : ''}
                         shadow-xl
                     `}>
-                        {activity === 'HOT' ? (
+                        {trendingRank && (
+                            <div className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-white text-black text-[10px] font-black flex items-center justify-center shadow-lg">
+                                #{trendingRank}
+                            </div>
+                        )}
+                        {activity !== 'CALM' && storyCount === 0 ? (
+                            <div className="flex items-center text-white font-bold text-sm shadow-sm">
+                                <Users size={12} className="mr-0.5" />{peopleHere}
+                            </div>
+                        ) : activity === 'HOT' ? (
                             <div className="text-white font-black text-xl tracking-tighter shadow-sm">+{storyCount}</div>
                         ) : activity === 'ACTIVE' ? (
                             <div className="text-white font-bold text-lg shadow-sm">+{storyCount}</div>
@@ -392,10 +671,21 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
                                 {spot.description}
                             </p>
 
+                            {peopleHere > 0 && (
+                                <div className="flex items-center w-full text-xs font-semibold text-green-400 -mt-2 mb-3">
+                                    <Users size={12} className="mr-1.5" />
+                                    {peopleHere} {peopleHere === 1 ? t('spot.peopleHere.one') : t('spot.peopleHere.other')}
+                                </div>
+                            )}
+
                             <button 
                                 onClick={(e) => {
                                     e.stopPropagation();
-                                    onSpotSelect(spot);
+                                    if (storyCount > 0) {
+                                        onSpotSelect(spot);
+                                    } else {
+                                        onCheckIn(spot);
+                                    }
                                 }}
                                 className="w-full flex items-center justify-center py-3 rounded-xl font-bold bg-purple-600 hover:bg-purple-500 text-white shadow-purple-900/30 active:scale-95 transition-all"
                             >
@@ -408,8 +698,58 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
             </div>
             );
         })}
+
+        {/* Clusters: spots too close to tell apart at this zoom */}
+        {clusters.map(cluster => {
+            const position = getPosition(cluster.latitude, cluster.longitude);
+            if (!isOnScreen(position)) return null;
+            const activity = getSpotActivityLevel(cluster.vibeScore);
+            // Bigger bubble for more stories, capped so a whole city stays readable
+            const size = Math.min(80, 44 + cluster.storyCount * 3);
+
+            let colorClass = "bg-gray-800/90 border-gray-500";
+            if (activity === 'HOT') {
+                colorClass = "bg-gradient-to-br from-orange-500 to-red-600 border-white shadow-[0_0_30px_rgba(249,115,22,0.6)]";
+            } else if (activity === 'ACTIVE') {
+                colorClass = "bg-purple-600 border-purple-300 shadow-[0_0_20px_rgba(147,51,234,0.5)]";
+            }
+
+            return (
+            <div
+                key={cluster.id}
+                className="absolute transform -translate-x-1/2 -translate-y-1/2 cursor-pointer z-20"
+                style={{ top: position.y, left: position.x }}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    focusOnCluster(cluster);
+                }}
+            >
+                <div className="relative flex flex-col items-center">
+                    <button
+                        className={`flex flex-col items-center justify-center rounded-full border-[3px] text-white shadow-xl transition-transform active:scale-95 ${colorClass}`}
+                        style={{ width: size, height: size }}
+                        aria-label={t('map.cluster.zoom')}
+                    >
+                        <span className="font-black text-lg leading-none">{cluster.storyCount}</span>
+                        <span className="text-[9px] font-semibold uppercase opacity-80">{cluster.spots.length} {t('map.cluster.spots')}</span>
+                    </button>
+                    <div className="absolute top-[105%] flex items-center px-2 py-0.5 rounded-full bg-black/80 border border-gray-800 whitespace-nowrap pointer-events-none">
+                        <Flame size={10} className="mr-1 text-orange-400" />
+                        <span className="text-[10px] font-bold text-gray-200 tabular-nums">{cluster.vibeScore}</span>
+                    </div>
+                </div>
+            </div>
+            );
+        })}
       </div>
       
+      {/* Tile Attribution */}
+      {tileConfig.attribution && (
+        <div className="absolute bottom-[4.25rem] left-2 z-30 mb-[env(safe-area-inset-bottom)] px-1.5 py-0.5 rounded bg-black/60 text-[9px] text-gray-400 pointer-events-none">
+          {tileConfig.attribution}
+        </div>
+      )}
+
       {/* Controls Overlay */}
       <div className="absolute bottom-24 right-4 flex flex-col space-y-3 z-30 mb-[env(safe-area-inset-bottom)]">
         <div className="flex flex-col bg-gray-800/90 backdrop-blur-md rounded-2xl border border-gray-700 overflow-hidden shadow-xl">
@@ -422,6 +762,32 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
             </button>
         </div>
 
+        <button
+            onClick={replayWindow ? closeReplay : openReplay}
+            className={`p-3 rounded-full shadow-xl active:scale-95 transition-all flex items-center justify-center border ${
+                replayWindow
+                ? 'bg-purple-600 border-purple-300 text-white shadow-purple-900/40'
+                : 'bg-gray-800/90 border-gray-700 text-gray-200 hover:bg-gray-700'
+            }`}
+            aria-label={t('map.replay')}
+            aria-pressed={!!replayWindow}
+        >
+            <Clock size={20} />
+        </button>
+
+        <button
+            onClick={toggleHeatmap}
+            className={`p-3 rounded-full shadow-xl active:scale-95 transition-all flex items-center justify-center border ${
+                showHeatmap
+                ? 'bg-orange-500 border-orange-300 text-white shadow-orange-900/40'
+                : 'bg-gray-800/90 border-gray-700 text-gray-200 hover:bg-gray-700'
+            }`}
+            aria-label={t('map.heatmap')}
+            aria-pressed={showHeatmap}
+        >
+            <Layers size={20} />
+        </button>
+
         <button 
             onClick={centerMap} 
             className="p-3 bg-purple-600 hover:bg-purple-500 text-white rounded-full shadow-xl shadow-purple-900/40 active:scale-95 transition-all flex items-center justify-center"
@@ -430,9 +796,66 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
         </button>
       </div>
 
+      {/* Replay Timeline */}
+      {replayWindow && (
+        <div
+            className="absolute bottom-24 left-4 right-[4.75rem] z-30 mb-[env(safe-area-inset-bottom)] bg-gray-900/95 backdrop-blur-xl rounded-2xl border border-gray-700 p-3 shadow-2xl animate-in fade-in slide-in-from-bottom-2"
+            // Keep slider drags from panning the map
+            onPointerDown={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center space-x-2 mb-2">
+                <button
+                    onClick={toggleReplayPlaying}
+                    className="p-2 rounded-full bg-purple-600 hover:bg-purple-500 text-white active:scale-95 transition-all"
+                    aria-label={isReplayPlaying ? t('map.replay.pause') : t('map.replay.play')}
+                >
+                    {isReplayPlaying ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <div className="flex-1 min-w-0">
+                    <div className="text-white text-sm font-bold tabular-nums">{formatReplayTime(replayTime)}</div>
+                    <div className="text-[10px] text-gray-400">
+                        {spots.reduce((sum, spot) => sum + spot.activeStories.length, 0)} {t('map.replay.stories')}
+                    </div>
+                </div>
+                <button
+                    onClick={cycleReplaySpeed}
+                    className="px-2.5 py-1 rounded-full bg-gray-800 border border-gray-700 text-xs font-bold text-gray-200 tabular-nums hover:bg-gray-700"
+                    aria-label={t('map.replay.speed')}
+                >
+                    {replaySpeed}×
+                </button>
+                <button
+                    onClick={closeReplay}
+                    className="p-1.5 rounded-full hover:bg-gray-800 text-gray-400"
+                    aria-label={t('map.replay.close')}
+                >
+                    <X size={16} />
+                </button>
+            </div>
+            <input
+                type="range"
+                min={replayWindow.start}
+                max={replayWindow.end}
+                step={60 * 1000}
+                value={replayTime}
+                onChange={(e) => {
+                    setIsReplayPlaying(false);
+                    setReplayTime(Number(e.target.value));
+                }}
+                className="w-full accent-purple-500"
+                aria-label={t('map.replay')}
+            />
+            <div className="flex justify-between text-[10px] text-gray-500">
+                <span>{t('spot.hoursAgo')}</span>
+                <span>{t('spot.now')}</span>
+            </div>
+        </div>
+      )}
+
       {/* Top HUD with Search */}
       <div className="absolute top-0 left-0 right-0 p-6 pt-[calc(1.5rem+env(safe-area-inset-top))] z-40">
         {!isSearchOpen ? (
+            <>
             <div className="flex justify-between items-start pointer-events-none">
                 <div className="pointer-events-auto">
                     <h2 className="text-3xl font-black text-white tracking-tighter drop-shadow-2xl">
@@ -452,6 +875,31 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
                     <Search size={22} />
                 </button>
             </div>
+
+            {/* Trending Spots */}
+            {trendingSpots.length > 0 && (
+                <div className="flex items-center space-x-2 mt-4 overflow-x-auto no-scrollbar">
+                    <span className="flex items-center text-[10px] font-bold uppercase tracking-wider text-orange-400 whitespace-nowrap">
+                        <Zap size={12} className="mr-1" />
+                        {t('map.trending')}
+                    </span>
+                    {trendingSpots.map((spot, index) => (
+                        <button
+                            key={spot.id}
+                            onClick={() => focusOnSpot(spot)}
+                            className={`flex items-center space-x-1.5 px-3 py-1.5 rounded-full text-xs whitespace-nowrap backdrop-blur-md border transition-colors ${
+                                selectedSpotId === spot.id
+                                ? 'bg-white text-black border-white font-bold'
+                                : 'bg-gray-900/70 text-gray-200 border-white/10 hover:bg-gray-800/80'
+                            }`}
+                        >
+                            <span className="font-black">#{index + 1}</span>
+                            <span className="max-w-[8rem] truncate">{spot.name}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+            </>
         ) : (
             <div className="bg-gray-900/95 backdrop-blur-xl rounded-2xl border border-gray-700 p-2 shadow-2xl animate-in fade-in slide-in-from-top-2">
                 <form onSubmit={handleSearch} className="flex items-center space-x-2 border-b border-gray-700 pb-2 mb-2 px-2">
@@ -471,8 +919,8 @@ const MapView: React.FC<MapViewProps> = ({ spots, onSpotSelect, userLocation, ci
                         {searchResults.map((r, i) => (
                             <li key={i}>
                                 <button onClick={() => selectResult(r)} className="w-full text-left p-3 hover:bg-white/10 rounded-xl text-sm text-gray-300 truncate transition-colors">
-                                <span className="font-bold text-white block">{r.display_name.split(',')[0]}</span>
-                                <span className="text-xs text-gray-500">{r.display_name}</span>
+                                <span className="font-bold text-white block">{r.name}</span>
+                                <span className="text-xs text-gray-500">{r.displayName}</span>
                                 </button>
                             </li>
                         ))}
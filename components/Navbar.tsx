@@ -10,9 +10,12 @@ interface NavbarProps {
 
 const Navbar: React.FC<NavbarProps> = ({ currentView, onChangeView }) => {
   const { t } = useLanguage();
+  // The Spot screen is opened from the map, so it keeps the map tab active
+  const isActive = (view: ViewState) =>
+    currentView === view || (view === ViewState.MAP && currentView === ViewState.SPOT);
   const navItemClass = (view: ViewState) => 
     `flex flex-col items-center justify-center w-full h-full space-y-1 transition-colors duration-200 ${
-      currentView === view ? 'text-purple-400' : 'text-gray-400 hover:text-gray-200'
+      isActive(view) ? 'text-purple-400' : 'text-gray-400 hover:text-gray-200'
     }`;
 
   // Using h-auto and padding-bottom with env(safe-area-inset-bottom) ensures
@@ -13,6 +13,9 @@ interface ProfileViewProps {
   onDeleteStory: (id: string) => void;
   likedStoryIds: Set<string>;
   onToggleLikeStory: (storyId: string) => void;
+  queuedStoryIds: Set<string>;
+  /** Opens the full-screen viewer on this story */
+  onOpenStory: (storyId: string) => void;
 }
 
 const ProfileView: React.FC<ProfileViewProps> = ({ 
@@ -23,7 +26,9 @@ const ProfileView: React.FC<ProfileViewProps> = ({
     myStories,
     onDeleteStory,
     likedStoryIds,
-    onToggleLikeStory
+    onToggleLikeStory,
+    queuedStoryIds,
+    onOpenStory
 }) => {
   const { t, language, setLanguage } = useLanguage();
   const [isEditing, setIsEditing] = useState(false);
@@ -189,14 +194,16 @@ const ProfileView: React.FC<ProfileViewProps> = ({
                                     longitude: story.longitude,
                                     description: '',
                                     activeStories: [],
+                                    activeCheckIns: [],
                                     vibeScore: 0
                                 }}
                                 currentUser={user}
                                 onDelete={onDeleteStory}
-                                onClick={() => {}}
+                                onClick={() => onOpenStory(story.id)}
                                 hasLiked={likedStoryIds.has(story.id)}
                                 onToggleLike={() => onToggleLikeStory(story.id)}
                                 onReport={undefined} // Pas de signalement pour ses propres stories
+                                isPending={queuedStoryIds.has(story.id)}
                             />
                         ))
                     )}
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { X, Flag, AlertTriangle } from './Icon';
-import { moderationService } from '../services/supabaseService';
+import { moderationService, DEFAULT_REPORT_REASONS, ReportReason } from '../services/supabaseService';
+import { useToast } from './Toast';
+import { useLanguage } from '../translations';
+import { isRetryable } from '../services/result';
+import { outbox } from '../services/outbox';
 
 interface ReportModalProps {
   storyId: string;
@@ -15,15 +19,18 @@ const ReportModal: React.FC<ReportModalProps> = ({
   onClose,
   onReportSuccess
 }) => {
-  const [selectedReason, setSelectedReason] = useState<string>('');
+  const [selectedReason, setSelectedReason] = useState<ReportReason | ''>('');
   const [details, setDetails] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [reasons, setReasons] = useState<Array<{ value: string; label: string }>>([]);
+  const [reasons, setReasons] = useState<Array<{ value: ReportReason; label: string }>>([]);
+  const { showToast, showError } = useToast();
+  const { t } = useLanguage();
 
   useEffect(() => {
     const loadReasons = async () => {
       const reportReasons = await moderationService.getReportReasons();
-      setReasons(reportReasons);
+      // Liste non critique : raisons par défaut si le serveur ne répond pas
+      setReasons(reportReasons.ok ? reportReasons.data : DEFAULT_REPORT_REASONS);
     };
     loadReasons();
   }, []);
@@ -33,25 +40,33 @@ const ReportModal: React.FC<ReportModalProps> = ({
     if (!selectedReason) return;
 
     setIsSubmitting(true);
-    try {
-      const result = await moderationService.reportStory(
+    const result = await moderationService.reportStory(
+      storyId,
+      userId,
+      selectedReason,
+      details.trim() || undefined
+    );
+    setIsSubmitting(false);
+
+    if (result.ok) {
+      onReportSuccess(result.data.message);
+      onClose();
+    } else if (isRetryable(result.error)) {
+      // Hors ligne : le signalement part avec l'outbox
+      await outbox.enqueue({
+        kind: 'reportStory',
         storyId,
         userId,
-        selectedReason as any,
-        details.trim() || undefined
-      );
-
-      if (result.success) {
-        onReportSuccess(result.message);
-        onClose();
-      } else {
-        alert(result.message);
-      }
-    } catch (error) {
-      console.error('Error reporting story:', error);
-      alert('Erreur lors du signalement');
-    } finally {
-      setIsSubmitting(false);
+        reason: selectedReason,
+        details: details.trim() || undefined
+      });
+      showToast(t('outbox.queued.report'));
+      onClose();
+    } else if (result.error.kind === 'validation') {
+      // Refus de report_story() (déjà signalée) : son message est explicite
+      showToast(result.error.message, 'error');
+    } else {
+      showError(result.error, 'errors.action.report');
     }
   };
 
@@ -0,0 +1,215 @@
+import React, { useMemo } from 'react';
+import { Spot } from '../types';
+import { ArrowLeft, MapPin, Flame, Users, Clock, Video, PlusCircle, Navigation, Loader2 } from './Icon';
+import { useLanguage } from '../translations';
+import { countPeopleHere } from '../services/checkIns';
+
+interface SpotViewProps {
+  /** Live spot from the map (no stories left once they have all expired) */
+  spot: Spot;
+  onBack: () => void;
+  onOpenStory: (storyId: string) => void;
+  onPostHere: () => void;
+  onCheckIn: () => void;
+  /** The current user has an active check-in here */
+  isCheckedIn: boolean;
+  isCheckingIn: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// One bar per hour over a story's lifetime
+const TIMELINE_HOURS = 24;
+
+const SpotView: React.FC<SpotViewProps> = ({ spot, onBack, onOpenStory, onPostHere, onCheckIn, isCheckedIn, isCheckingIn }) => {
+  const { t } = useLanguage();
+
+  const stories = spot.activeStories;
+  const peopleHere = countPeopleHere(spot.activeCheckIns);
+
+  const contributors = useMemo(() => {
+    const byUser = new Map<string, { userId: string; username: string; avatar: string }>();
+    for (const story of stories) {
+      if (!byUser.has(story.userId)) {
+        byUser.set(story.userId, { userId: story.userId, username: story.username, avatar: story.userAvatar });
+      }
+    }
+    return [...byUser.values()];
+  }, [stories]);
+
+  // Stories posted per hour, oldest hour first
+  const timeline = useMemo(() => {
+    const now = Date.now();
+    const buckets = new Array<number>(TIMELINE_HOURS).fill(0);
+    for (const story of stories) {
+      const hoursAgo = Math.floor((now - story.timestamp) / HOUR_MS);
+      if (hoursAgo >= 0 && hoursAgo < TIMELINE_HOURS) {
+        buckets[TIMELINE_HOURS - 1 - hoursAgo]++;
+      }
+    }
+    return buckets;
+  }, [stories]);
+  const timelineMax = Math.max(1, ...timeline);
+
+  const lastActivity = stories.reduce((latest, story) => Math.max(latest, story.timestamp), 0);
+
+  const timeAgo = (timestamp: number) => {
+    const mins = Math.floor((Date.now() - timestamp) / 60000);
+    if (mins < 60) return `${mins}m`;
+    return `${Math.floor(mins / 60)}h`;
+  };
+
+  return (
+    <div className="h-full overflow-y-auto no-scrollbar pb-24 bg-gray-950">
+      {/* Header */}
+      <div className="sticky top-0 z-20 bg-gray-950/90 backdrop-blur-md border-b border-gray-800/60 px-4 pt-4 pb-3 flex items-center space-x-3">
+        <button
+          onClick={onBack}
+          className="p-2 -ml-2 rounded-full text-gray-300 hover:text-white hover:bg-white/10"
+          aria-label={t('spot.back')}
+        >
+          <ArrowLeft size={22} />
+        </button>
+        <div className="min-w-0 flex-1">
+          <h1 className="text-xl font-bold text-white truncate">{spot.name}</h1>
+          {spot.neighborhood && (
+            <p className="text-xs text-gray-400 flex items-center">
+              <MapPin size={12} className="mr-1 text-purple-400 shrink-0" />
+              <span className="truncate">{spot.neighborhood}</span>
+              {spot.category && spot.category !== 'other' && (
+                <span className="ml-2 shrink-0 px-1.5 py-0.5 rounded-md bg-purple-500/15 text-purple-300 text-[10px] font-semibold uppercase tracking-wide">
+                  {t(`spot.category.${spot.category}`)}
+                </span>
+              )}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="px-4 pt-4 space-y-5">
+        {/* Description from the spot record (set by admins) */}
+        {spot.description && (
+          <p className="text-sm text-gray-300 leading-relaxed">{spot.description}</p>
+        )}
+
+        {/* People checked in right now */}
+        {peopleHere > 0 && (
+          <div className="flex items-center text-sm font-semibold text-green-400">
+            <span className="w-2 h-2 rounded-full bg-green-400 animate-pulse mr-2" />
+            {peopleHere} {peopleHere === 1 ? t('spot.peopleHere.one') : t('spot.peopleHere.other')}
+          </div>
+        )}
+
+        {/* Stats */}
+        <div className="grid grid-cols-3 gap-2">
+          <div className="bg-gray-900 rounded-xl border border-gray-800 p-3">
+            <Flame size={16} className="text-orange-400 mb-1" />
+            <div className="text-lg font-bold text-white tabular-nums">{spot.vibeScore}</div>
+            <div className="text-[10px] uppercase tracking-wide text-gray-500">{t('spot.vibeScore')}</div>
+          </div>
+          <div className="bg-gray-900 rounded-xl border border-gray-800 p-3">
+            <Users size={16} className="text-purple-400 mb-1" />
+            <div className="text-lg font-bold text-white tabular-nums">{contributors.length}</div>
+            <div className="text-[10px] uppercase tracking-wide text-gray-500">{t('spot.contributors')}</div>
+          </div>
+          <div className="bg-gray-900 rounded-xl border border-gray-800 p-3">
+            <Clock size={16} className="text-green-400 mb-1" />
+            <div className="text-lg font-bold text-white tabular-nums">{lastActivity ? timeAgo(lastActivity) : '–'}</div>
+            <div className="text-[10px] uppercase tracking-wide text-gray-500">{t('spot.lastActivity')}</div>
+          </div>
+        </div>
+
+        {/* Contributors */}
+        {contributors.length > 0 && (
+          <div className="flex items-center">
+            <div className="flex -space-x-2">
+              {contributors.slice(0, 5).map(contributor => (
+                <img
+                  key={contributor.userId}
+                  src={contributor.avatar}
+                  alt={contributor.username}
+                  title={contributor.username}
+                  className="w-8 h-8 rounded-full border-2 border-gray-950 bg-gray-800 object-cover"
+                />
+              ))}
+            </div>
+            {contributors.length > 5 && (
+              <span className="ml-2 text-xs text-gray-400">+{contributors.length - 5}</span>
+            )}
+          </div>
+        )}
+
+        {/* Mini activity timeline: stories per hour */}
+        <div className="bg-gray-900 rounded-xl border border-gray-800 p-3">
+          <div className="text-xs font-semibold text-gray-300 mb-2">{t('spot.activity')}</div>
+          <div className="flex items-end h-12 space-x-0.5">
+            {timeline.map((count, index) => (
+              <div
+                key={index}
+                className={`flex-1 rounded-sm ${count > 0 ? 'bg-purple-500' : 'bg-gray-800'}`}
+                style={{ height: count > 0 ? `${Math.max(15, (count / timelineMax) * 100)}%` : '8%' }}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+            <span>{t('spot.hoursAgo')}</span>
+            <span>{t('spot.now')}</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={onPostHere}
+            className="flex items-center justify-center space-x-2 py-3 rounded-xl font-bold bg-purple-600 hover:bg-purple-500 text-white shadow-lg shadow-purple-900/30 active:scale-95 transition-all"
+          >
+            <PlusCircle size={18} />
+            <span>{t('spot.postHere')}</span>
+          </button>
+          <button
+            onClick={onCheckIn}
+            disabled={isCheckedIn || isCheckingIn}
+            className="flex items-center justify-center space-x-2 py-3 rounded-xl font-bold bg-gray-900 border border-gray-700 text-white hover:bg-gray-800 active:scale-95 transition-all disabled:opacity-60 disabled:active:scale-100"
+          >
+            {isCheckingIn ? <Loader2 size={18} className="animate-spin" /> : <Navigation size={18} />}
+            <span>{isCheckedIn ? t('spot.checkedIn') : t('map.checkIn')}</span>
+          </button>
+        </div>
+
+        {/* Stories */}
+        <div>
+          <h2 className="text-white font-bold mb-3">
+            {t('spot.stories')} <span className="text-gray-500 font-normal">{stories.length}</span>
+          </h2>
+          {stories.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">{t('spot.noStories')}</p>
+          ) : (
+            <div className="grid grid-cols-3 gap-1.5">
+              {stories.map(story => (
+                <button
+                  key={story.id}
+                  onClick={() => onOpenStory(story.id)}
+                  className="relative aspect-[9/16] rounded-lg overflow-hidden bg-gray-800 active:scale-95 transition-transform"
+                >
+                  <img
+                    src={story.imageRenditions?.thumb?.url || story.imageUrl}
+                    alt={story.caption}
+                    loading="lazy"
+                    className="absolute inset-0 w-full h-full object-cover"
+                  />
+                  <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-transparent to-transparent" />
+                  {story.videoUrl && (
+                    <Video size={14} className="absolute top-1.5 right-1.5 text-white drop-shadow" />
+                  )}
+                  <span className="absolute bottom-1.5 left-1.5 right-1.5 text-[10px] font-semibold text-white truncate text-left">
+                    {story.username} · {timeAgo(story.timestamp)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpotView;
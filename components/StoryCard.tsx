@@ -1,28 +1,55 @@
 import React, { useState } from 'react';
-import { Story, Spot, User } from '../types';
-import { MapPin, Clock, Share2, Trash2, Heart, Flag } from './Icon';
+import { Story, Spot, User, ImageRendition } from '../types';
+import { MapPin, Clock, Share2, Trash2, Heart, Flag, Navigation, CloudUpload } from './Icon';
+import { useLanguage } from '../translations';
+import { formatDistance } from '../services/geoService';
 
 interface StoryCardProps {
   story: Story;
   spot: Spot;
+  /** Distance from the viewer, in km (omitted when location is unknown) */
+  distanceKm?: number;
   currentUser: User | null;
   onClick: () => void;
   onDelete: (storyId: string) => void;
   hasLiked?: boolean;
   onToggleLike?: () => void;
   onReport?: (storyId: string) => void;
+  /** Queued in the offline outbox, not yet in the backend */
+  isPending?: boolean;
 }
 
+// Cards span the feed column (max-w-md); the browser picks the matching size
+const CARD_IMAGE_SIZES = '(max-width: 448px) 100vw, 448px';
+
+// Only URLs the browser can fetch go in srcset (no data: or unresolved local-media: URLs)
+const isFetchableUrl = (url: string) => /^(https?:|blob:)/.test(url);
+
+// "url 320w, url 1080w, ..." from the captured sizes
+const buildSrcSet = (story: Story): string | undefined => {
+  const renditions = Object.values(story.imageRenditions || {}).filter(
+    (rendition): rendition is ImageRendition => !!rendition && isFetchableUrl(rendition.url)
+  );
+  if (renditions.length === 0) return undefined;
+  return renditions
+    .sort((a, b) => a.width - b.width)
+    .map(rendition => `${rendition.url} ${rendition.width}w`)
+    .join(', ');
+};
+
 const StoryCard: React.FC<StoryCardProps> = ({ 
   story, 
   spot, 
+  distanceKm,
   currentUser, 
   onClick, 
   onDelete, 
   hasLiked, 
   onToggleLike,
-  onReport
+  onReport,
+  isPending
 }) => {
+  const { t } = useLanguage();
   const [copied, setCopied] = useState(false);
   const [videoFailed, setVideoFailed] = useState(false);
 
@@ -42,18 +69,12 @@ const StoryCard: React.FC<StoryCardProps> = ({
     }
   };
 
-  const [isLiking, setIsLiking] = useState(false);
-
-  const handleLikeClick = async (e: React.MouseEvent) => {
+  // Likes are applied optimistically by the parent, which also coalesces rapid taps
+  const handleLikeClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!onToggleLike || isLiking) return;
-    
-    setIsLiking(true);
-    try {
-      await onToggleLike();
-    } finally {
-      setIsLiking(false);
-    }
+    // The story doesn't exist server-side yet
+    if (isPending) return;
+    onToggleLike?.();
   };
 
   const handleShareClick = async (e: React.MouseEvent) => {
@@ -106,12 +127,17 @@ const StoryCard: React.FC<StoryCardProps> = ({
       // Photo story: render image element
       return (
         <img 
-          src={story.imageUrl} 
+          src={story.imageRenditions?.feed?.url || story.imageUrl} 
+          srcSet={buildSrcSet(story)}
+          sizes={CARD_IMAGE_SIZES}
           alt={story.caption} 
+          loading="lazy"
+          decoding="async"
           className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
           onError={(e) => {
             console.error('Image failed to load:', story.imageUrl);
             // Show error placeholder
+            e.currentTarget.removeAttribute('srcset');
             e.currentTarget.src = 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="400" height="400"%3E%3Crect fill="%23374151" width="400" height="400"/%3E%3Ctext fill="%239ca3af" font-family="sans-serif" font-size="18" x="50%25" y="50%25" text-anchor="middle" dy=".3em"%3EFailed to load%3C/text%3E%3C/svg%3E';
           }}
         />
@@ -137,10 +163,17 @@ const StoryCard: React.FC<StoryCardProps> = ({
         </div>
         
         <div className="flex items-center space-x-2">
-            <div className="bg-black/40 backdrop-blur-sm px-2 py-1 rounded-full flex items-center space-x-1">
-                <Clock size={12} className="text-gray-300" />
-                <span className="text-gray-300 text-xs">{timeAgo(story.timestamp)}</span>
-            </div>
+            {isPending ? (
+                <div className="bg-amber-500/80 backdrop-blur-sm px-2 py-1 rounded-full flex items-center space-x-1 animate-pulse">
+                    <CloudUpload size={12} className="text-white" />
+                    <span className="text-white text-xs font-semibold">{t('story.pendingUpload')}</span>
+                </div>
+            ) : (
+                <div className="bg-black/40 backdrop-blur-sm px-2 py-1 rounded-full flex items-center space-x-1">
+                    <Clock size={12} className="text-gray-300" />
+                    <span className="text-gray-300 text-xs">{timeAgo(story.timestamp)}</span>
+                </div>
+            )}
             
             {isOwner && (
                 <button 
@@ -158,6 +191,12 @@ const StoryCard: React.FC<StoryCardProps> = ({
         <div className="flex items-center space-x-1 mb-2">
             <MapPin size={14} className="text-purple-400" />
             <span className="text-purple-300 text-xs font-medium uppercase tracking-wide">{spot.neighborhood} • {spot.name}</span>
+            {distanceKm !== undefined && (
+                <span className="flex items-center space-x-0.5 text-gray-300 text-xs font-medium pl-1">
+                    <Navigation size={10} className="text-gray-400" />
+                    <span>{formatDistance(distanceKm)}</span>
+                </span>
+            )}
         </div>
         <p className="text-white text-sm font-medium mb-2 line-clamp-2">{story.caption}</p>
         <div className="flex flex-wrap gap-2 mb-3">
@@ -175,19 +214,13 @@ const StoryCard: React.FC<StoryCardProps> = ({
                 className="flex items-center space-x-1.5 group/like"
              >
                 <div className={`p-2 rounded-full transition-all ${hasLiked ? 'text-pink-500 bg-pink-500/20' : 'text-white hover:bg-white/10'}`}>
-            {isLiking ? (
-              <div className="w-5 h-5 flex items-center justify-center">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
-              </div>
-            ) : (
-              <Heart 
-                size={20} 
-                className={`transition-transform duration-300 ${hasLiked ? "fill-pink-500 scale-110" : "group-hover/like:scale-110"}`} 
-              />
-            )}
+            <Heart 
+              size={20} 
+              className={`transition-transform duration-300 ${hasLiked ? "fill-pink-500 scale-110" : "group-hover/like:scale-110"}`} 
+            />
           </div>
           <span className={`text-sm font-bold min-w-[20px] text-center ${hasLiked ? 'text-pink-400' : 'text-white'}`}>
-            {isLiking ? (hasLiked ? story.likes - 1 : story.likes + 1) : story.likes}
+            {story.likes}
           </span>
              </button>
 
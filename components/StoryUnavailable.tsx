@@ -0,0 +1,38 @@
+import React from 'react';
+import { Clock, Loader2 } from './Icon';
+import { useLanguage } from '../translations';
+
+interface StoryUnavailableProps {
+  /** Still fetching the shared story: show a spinner instead of the expired message */
+  isLoading: boolean;
+  onClose: () => void;
+}
+
+// Full-screen state for a ?story= link: loading, or the story is gone (expired, hidden, deleted)
+const StoryUnavailable: React.FC<StoryUnavailableProps> = ({ isLoading, onClose }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 backdrop-blur-md flex items-center justify-center p-8 animate-in fade-in duration-200">
+      {isLoading ? (
+        <Loader2 size={32} className="text-purple-400 animate-spin" />
+      ) : (
+        <div className="w-full max-w-xs text-center space-y-5">
+          <div className="inline-block p-4 rounded-3xl bg-gray-900 border border-gray-800 shadow-2xl">
+            <Clock size={40} className="text-purple-400" />
+          </div>
+          <h2 className="text-2xl font-black text-white">{t('shared.expired.title')}</h2>
+          <p className="text-gray-400 leading-relaxed">{t('shared.expired.desc')}</p>
+          <button
+            onClick={onClose}
+            className="w-full py-3 bg-white text-black font-bold rounded-xl hover:scale-105 transition-transform active:scale-95"
+          >
+            {t('shared.expired.button')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoryUnavailable;
@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Spot } from '../types';
+import { X, MapPin, Volume2, VolumeX } from './Icon';
+import { useLanguage } from '../translations';
+
+interface StoryViewerProps {
+  /** Spots to walk through, in order; each one plays all of its activeStories */
+  spots: Spot[];
+  initialSpotIndex: number;
+  initialStoryIndex: number;
+  onClose: () => void;
+}
+
+// How long a photo stays on screen
+const PHOTO_DURATION_MS = 5000;
+// Press longer than this = hold to pause (not a tap)
+const HOLD_DELAY_MS = 200;
+// Vertical drag that closes the viewer
+const SWIPE_CLOSE_PX = 80;
+// Left part of the screen that goes back
+const TAP_BACK_RATIO = 0.3;
+// Movement still counted as a tap
+const TAP_SLOP_PX = 10;
+
+const StoryViewer: React.FC<StoryViewerProps> = ({
+  spots,
+  initialSpotIndex,
+  initialStoryIndex,
+  onClose
+}) => {
+  const { t } = useLanguage();
+  const [position, setPosition] = useState({ spot: initialSpotIndex, story: initialStoryIndex });
+  const [progress, setProgress] = useState(0);
+  const [isHolding, setIsHolding] = useState(false);
+  const [isMuted, setIsMuted] = useState(true);
+  const [dragY, setDragY] = useState(0);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
+  const holdTimerRef = useRef<number | null>(null);
+  const heldRef = useRef(false);
+  const positionRef = useRef(position);
+  positionRef.current = position;
+  const progressRef = useRef(progress);
+  progressRef.current = progress;
+
+  const spot = spots[position.spot];
+  const story = spot?.activeStories[position.story];
+  const isPaused = isHolding || dragY > 0;
+
+  // Next story of the spot, then first story of the next spot; closes after the last one
+  // Progress is reset together with the position, so the next story never starts from the old value
+  const goNext = useCallback(() => {
+    const current = positionRef.current;
+    setProgress(0);
+    if (current.story < spots[current.spot].activeStories.length - 1) {
+      setPosition({ spot: current.spot, story: current.story + 1 });
+    } else if (current.spot < spots.length - 1) {
+      setPosition({ spot: current.spot + 1, story: 0 });
+    } else {
+      onClose();
+    }
+  }, [spots, onClose]);
+
+  const goPrevious = useCallback(() => {
+    const current = positionRef.current;
+    setProgress(0);
+    if (current.story > 0) {
+      setPosition({ spot: current.spot, story: current.story - 1 });
+    } else if (current.spot > 0) {
+      setPosition({ spot: current.spot - 1, story: spots[current.spot - 1].activeStories.length - 1 });
+    } else {
+      // Going back from the very first story restarts it (new position object restarts the timer)
+      setPosition({ ...current });
+      if (videoRef.current) videoRef.current.currentTime = 0;
+    }
+  }, [spots]);
+
+  // Photos: timer driven by animation frames, so pausing simply stops counting
+  useEffect(() => {
+    if (!story || story.videoUrl || isPaused) return;
+
+    let frame = 0;
+    let last = performance.now();
+    // Resumes where a hold paused it
+    let elapsed = progressRef.current;
+    const tick = (now: number) => {
+      elapsed = Math.min(1, elapsed + (now - last) / PHOTO_DURATION_MS);
+      last = now;
+      setProgress(elapsed);
+      if (elapsed >= 1) {
+        goNext();
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [story, position, isPaused, goNext]);
+
+  // Videos: progress follows playback
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!story?.videoUrl || !el) return;
+
+    if (isPaused) {
+      el.pause();
+      return;
+    }
+    el.play().catch(err => console.warn('Viewer playback blocked:', err));
+
+    let frame = 0;
+    const tick = () => {
+      if (el.duration && Number.isFinite(el.duration)) {
+        setProgress(Math.min(1, el.currentTime / el.duration));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [story, isPaused]);
+
+  // Keyboard: arrows navigate, Escape closes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') goNext();
+      else if (e.key === 'ArrowLeft') goPrevious();
+      else if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goNext, goPrevious, onClose]);
+
+  useEffect(() => () => {
+    if (holdTimerRef.current !== null) window.clearTimeout(holdTimerRef.current);
+  }, []);
+
+  // Stories removed while the viewer was open (deleted, expired)
+  useEffect(() => {
+    if (!story) onClose();
+  }, [story, onClose]);
+
+  if (!spot || !story) return null;
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerRef.current = { x: e.clientX, y: e.clientY };
+    heldRef.current = false;
+    holdTimerRef.current = window.setTimeout(() => {
+      heldRef.current = true;
+      setIsHolding(true);
+    }, HOLD_DELAY_MS);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!pointerRef.current) return;
+    setDragY(Math.max(0, e.clientY - pointerRef.current.y));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const start = pointerRef.current;
+    pointerRef.current = null;
+    if (holdTimerRef.current !== null) {
+      window.clearTimeout(holdTimerRef.current);
+      holdTimerRef.current = null;
+    }
+    setIsHolding(false);
+    setDragY(0);
+    if (!start) return;
+
+    if (e.clientY - start.y > SWIPE_CLOSE_PX) {
+      onClose();
+      return;
+    }
+    // A hold only pauses; releasing it never navigates
+    if (heldRef.current) return;
+    if (Math.abs(e.clientX - start.x) > TAP_SLOP_PX || Math.abs(e.clientY - start.y) > TAP_SLOP_PX) return;
+
+    const bounds = e.currentTarget.getBoundingClientRect();
+    if (e.clientX - bounds.left < bounds.width * TAP_BACK_RATIO) {
+      goPrevious();
+    } else {
+      goNext();
+    }
+  };
+
+  const handlePointerCancel = () => {
+    pointerRef.current = null;
+    if (holdTimerRef.current !== null) {
+      window.clearTimeout(holdTimerRef.current);
+      holdTimerRef.current = null;
+    }
+    setIsHolding(false);
+    setDragY(0);
+  };
+
+  const timeAgo = (timestamp: number) => {
+    const mins = Math.floor((Date.now() - timestamp) / 60000);
+    if (mins < 60) return `${mins}m`;
+    return `${Math.floor(mins / 60)}h`;
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black flex justify-center animate-in fade-in duration-200"
+      style={{ opacity: dragY > 0 ? Math.max(0.4, 1 - dragY / 400) : undefined }}
+    >
+      <div
+        className="relative w-full max-w-md h-full overflow-hidden select-none touch-none"
+        style={{ transform: dragY > 0 ? `translateY(${dragY}px)` : undefined }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onContextMenu={(e) => e.preventDefault()}
+      >
+        {/* Media */}
+        {story.videoUrl ? (
+          <video
+            key={story.id}
+            ref={videoRef}
+            src={story.videoUrl}
+            poster={story.imageUrl}
+            className="absolute inset-0 w-full h-full object-cover"
+            playsInline
+            autoPlay
+            muted={isMuted}
+            preload="auto"
+            onEnded={goNext}
+            onError={() => {
+              console.error('Viewer video failed to load:', story.videoUrl);
+              goNext();
+            }}
+          />
+        ) : (
+          <img
+            key={story.id}
+            src={story.imageUrl}
+            alt={story.caption}
+            draggable={false}
+            className="absolute inset-0 w-full h-full object-cover"
+          />
+        )}
+        <div className="absolute inset-0 bg-gradient-to-b from-black/60 via-transparent to-black/70 pointer-events-none" />
+
+        {/* Progress bars: one segment per story of the current spot */}
+        <div className="absolute top-0 left-0 right-0 pt-[max(env(safe-area-inset-top),0.75rem)] px-3 flex space-x-1">
+          {spot.activeStories.map((s, index) => (
+            <div key={s.id} className="flex-1 h-0.5 bg-white/30 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-white"
+                style={{
+                  width: `${index < position.story ? 100 : index === position.story ? progress * 100 : 0}%`
+                }}
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Header */}
+        <div className="absolute top-0 left-0 right-0 pt-[max(env(safe-area-inset-top),0.75rem)] mt-3 px-4 flex items-center justify-between">
+          <div className="flex items-center space-x-2 min-w-0">
+            <div className="w-8 h-8 rounded-full border-2 border-purple-500 overflow-hidden shrink-0">
+              <img src={story.userAvatar} alt={story.username} className="w-full h-full object-cover" />
+            </div>
+            <div className="min-w-0">
+              <div className="flex items-center space-x-2">
+                <span className="text-white text-sm font-semibold truncate">{story.username}</span>
+                <span className="text-gray-300 text-xs">{timeAgo(story.timestamp)}</span>
+              </div>
+              <div className="flex items-center text-gray-300 text-xs">
+                <MapPin size={10} className="mr-1 text-purple-400 shrink-0" />
+                <span className="truncate">{spot.name}</span>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center space-x-1 shrink-0">
+            {story.videoUrl && (
+              <button
+                onPointerDown={(e) => e.stopPropagation()}
+                onPointerUp={(e) => e.stopPropagation()}
+                onClick={() => setIsMuted(muted => !muted)}
+                className="p-2 rounded-full text-white hover:bg-white/10"
+                aria-label={isMuted ? t('viewer.unmute') : t('viewer.mute')}
+              >
+                {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+              </button>
+            )}
+            <button
+              onPointerDown={(e) => e.stopPropagation()}
+              onPointerUp={(e) => e.stopPropagation()}
+              onClick={onClose}
+              className="p-2 rounded-full text-white hover:bg-white/10"
+              aria-label={t('viewer.close')}
+            >
+              <X size={22} />
+            </button>
+          </div>
+        </div>
+
+        {/* Caption */}
+        <div className="absolute bottom-0 left-0 right-0 p-5 pb-[max(env(safe-area-inset-bottom),1.25rem)] pointer-events-none">
+          <p className="text-white text-base font-medium leading-snug mb-2">{story.caption}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {story.vibeTags.map(tag => (
+              <span key={tag} className="text-xs font-bold text-purple-200 bg-purple-900/40 px-2 py-0.5 rounded-full">
+                {tag}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoryViewer;
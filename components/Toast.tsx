@@ -0,0 +1,103 @@
+import React, { createContext, useCallback, useContext, useRef, useState, ReactNode } from 'react';
+import { AlertTriangle, Check, WifiOff, X } from './Icon';
+import { useLanguage } from '../translations';
+import { ServiceError } from '../services/result';
+
+type ToastVariant = 'error' | 'success' | 'info';
+
+interface ToastItem {
+  id: number;
+  message: string;
+  variant: ToastVariant;
+  offline?: boolean;
+}
+
+interface ToastContextType {
+  showToast: (message: string, variant?: ToastVariant) => void;
+  // Message traduit selon le type d'erreur, précédé de l'action qui a échoué
+  showError: (error: ServiceError, actionKey?: string) => void;
+}
+
+const TOAST_DURATION_MS = 4000;
+const MAX_TOASTS = 3;
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { t } = useLanguage();
+  const [toasts, setToasts] = useState<ToastItem[]>([]);
+  const nextId = useRef(0);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const push = useCallback((toast: Omit<ToastItem, 'id'>) => {
+    const id = ++nextId.current;
+    setToasts(prev => {
+      // Same message already on screen (e.g. several calls failing offline): keep one
+      if (prev.some(item => item.message === toast.message)) return prev;
+      return [...prev, { ...toast, id }].slice(-MAX_TOASTS);
+    });
+    setTimeout(() => dismiss(id), TOAST_DURATION_MS);
+  }, [dismiss]);
+
+  const showToast = useCallback((message: string, variant: ToastVariant = 'info') => {
+    push({ message, variant });
+  }, [push]);
+
+  const showError = useCallback((error: ServiceError, actionKey?: string) => {
+    const reason = t(`errors.${error.kind}`);
+    push({
+      message: actionKey ? `${t(actionKey)} ${reason}` : reason,
+      variant: 'error',
+      offline: error.kind === 'network'
+    });
+  }, [push, t]);
+
+  return (
+    <ToastContext.Provider value={{ showToast, showError }}>
+      {children}
+      <div className="fixed top-4 inset-x-0 z-[60] flex flex-col items-center space-y-2 px-4 pointer-events-none">
+        {toasts.map(toast => (
+          <div
+            key={toast.id}
+            role={toast.variant === 'error' ? 'alert' : 'status'}
+            className={`pointer-events-auto w-full max-w-sm flex items-start space-x-3 rounded-xl border px-4 py-3 shadow-2xl backdrop-blur-md animate-in fade-in slide-in-from-top-2 ${
+              toast.variant === 'error'
+                ? 'bg-red-950/90 border-red-500/40 text-red-100'
+                : toast.variant === 'success'
+                  ? 'bg-green-950/90 border-green-500/40 text-green-100'
+                  : 'bg-gray-900/90 border-white/10 text-white'
+            }`}
+          >
+            <div className="shrink-0 mt-0.5">
+              {toast.offline ? (
+                <WifiOff size={18} className="text-red-300" />
+              ) : toast.variant === 'error' ? (
+                <AlertTriangle size={18} className="text-red-300" />
+              ) : (
+                <Check size={18} className="text-green-300" />
+              )}
+            </div>
+            <p className="flex-1 text-sm font-medium">{toast.message}</p>
+            <button
+              onClick={() => dismiss(toast.id)}
+              className="shrink-0 p-0.5 rounded-full hover:bg-white/10 transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+};
+
+export const useToast = () => {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+};
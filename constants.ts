@@ -7,18 +7,15 @@ export const MOCK_USER: User = {
   isGuest: false
 };
 
-// Known Neighborhood Centroids for auto-assignment (Conakry context)
-export const KNOWN_NEIGHBORHOODS = [
-  { name: 'Kaloum', lat: 9.515, lon: -13.710 },
-  { name: 'Dixinn', lat: 9.545, lon: -13.690 },
-  { name: 'Taouyah', lat: 9.580, lon: -13.680 },
-  { name: 'Ratoma', lat: 9.605, lon: -13.650 },
-  { name: 'Kipe', lat: 9.620, lon: -13.630 },
-  { name: 'Lambanyi', lat: 9.635, lon: -13.610 }
-];
+// Default story lifetime: 24 hours
+export const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000;
 
 // Initial stories - empty by default for MVP
 // Users will create their own stories
 export const INITIAL_STORIES: Story[] = [];
 
-export const FILTERS = ['All', 'Near Me', 'Trending'];
\ No newline at end of file
+export const FILTERS = ['All', 'Near Me', 'Trending'];
+
+// Rayons proposés pour le filtre "Near Me" (km)
+export const NEAR_ME_RADII_KM = [0.5, 1, 2, 5, 10, 25];
+export const DEFAULT_NEAR_ME_RADIUS_KM = 2;
\ No newline at end of file
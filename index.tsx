@@ -2,6 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { LanguageProvider } from './translations';
+import { ToastProvider } from './components/Toast';
 
 // Register Service Worker for PWA
 if ('serviceWorker' in navigator) {
@@ -30,7 +31,9 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <LanguageProvider>
-      <App />
+      <ToastProvider>
+        <App />
+      </ToastProvider>
     </LanguageProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -70,9 +70,31 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Network-first for the neighborhood registry (services/neighborhoods.ts):
+  // edited index.json and GeoJSON files must reach installed apps, the cached
+  // copy is only the offline fallback
+  if (url.origin === self.location.origin && url.pathname.startsWith('/neighborhoods/')) {
+    event.respondWith(
+      fetch(event.request)
+        .then((response) => {
+          if (response && response.status === 200 && response.type === 'basic') {
+            const responseToCache = response.clone();
+            caches.open(RUNTIME_CACHE)
+              .then((cache) => {
+                cache.put(event.request, responseToCache);
+              });
+          }
+          return response;
+        })
+        .catch(() => caches.match(event.request))
+    );
+    return;
+  }
+
   // Cache-first strategy for app assets
+  // (shared links like /?story=<id> load the same app shell)
   event.respondWith(
-    caches.match(event.request)
+    caches.match(event.request, { ignoreSearch: event.request.mode === 'navigate' })
       .then((cachedResponse) => {
         if (cachedResponse) {
           return cachedResponse;
@@ -107,10 +129,181 @@ self.addEventListener('fetch', (event) => {
   );
 });
 
-// Background sync for offline actions (future enhancement)
+// Background sync: replay the offline outbox (see services/outbox.ts)
+const OUTBOX_DB_NAME = 'spotlive-outbox';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_SYNC_TAG = 'spotlive-outbox';
+
+const idbRequest = (request) =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Same schema as services/outbox.ts
+const openOutbox = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore('entries', { keyPath: 'seq', autoIncrement: true });
+      db.createObjectStore('meta');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// 'done' | 'retry' | 'drop' from an HTTP status
+const outcomeForStatus = (status) => {
+  if (status >= 200 && status < 300) return 'done';
+  if (status === 429 || status >= 500) return 'retry';
+  return 'drop';
+};
+
+// Same layout as mediaStoragePath in services/backend.ts
+const storagePath = (folder, storyId, contentType, rendition = 'full') => {
+  const subtype = (contentType.split('/')[1] || '').replace(/[^a-z0-9]/gi, '').toLowerCase();
+  const ext = subtype === 'jpeg' ? 'jpg' : subtype || (folder === 'videos' ? 'mp4' : 'jpg');
+  const suffix = rendition === 'full' ? '' : `_${rendition}`;
+  return `${folder}/${storyId}${suffix}.${ext}`;
+};
+
+// Uploads a blob to the "stories" bucket: { outcome, url }
+const uploadToStorage = async (config, headers, folder, storyId, blob, rendition) => {
+  const contentType = blob.type || (folder === 'videos' ? 'video/mp4' : 'image/jpeg');
+  const path = storagePath(folder, storyId, contentType, rendition);
+  const response = await fetch(`${config.supabaseUrl}/storage/v1/object/stories/${path}`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': contentType, 'x-upsert': 'true' },
+    body: blob
+  });
+  return {
+    outcome: outcomeForStatus(response.status),
+    url: `${config.supabaseUrl}/storage/v1/object/public/stories/${path}`
+  };
+};
+
+const isBase64DataURL = (url) => typeof url === 'string' && url.startsWith('data:') && url.includes(';base64,');
+
+// Replays one entry against the Supabase REST API
+const replayEntry = async (config, entry) => {
+  const headers = {
+    apikey: config.supabaseAnonKey,
+    Authorization: `Bearer ${config.supabaseAnonKey}`,
+    'Content-Type': 'application/json'
+  };
+  const rest = `${config.supabaseUrl}/rest/v1`;
+
+  switch (entry.kind) {
+    case 'createStory': {
+      const story = { ...entry.story };
+      const isVideo = !!(entry.videoBlob || story.video_url);
+      if (entry.videoBlob) {
+        const upload = await uploadToStorage(config, headers, 'videos', story.id, entry.videoBlob);
+        if (upload.outcome !== 'done') return upload.outcome;
+        story.video_url = upload.url;
+      }
+      // Photo (and its sizes) or poster captured offline: still base64 data URLs
+      const imageFolder = isVideo ? 'posters' : 'images';
+      const originalImageUrl = story.image_url;
+      if (isBase64DataURL(story.image_url)) {
+        const blob = await (await fetch(story.image_url)).blob();
+        const upload = await uploadToStorage(config, headers, imageFolder, story.id, blob);
+        if (upload.outcome !== 'done') return upload.outcome;
+        story.image_url = upload.url;
+      }
+      if (story.image_renditions) {
+        const renditions = {};
+        for (const [name, rendition] of Object.entries(story.image_renditions)) {
+          if (name === 'full' || rendition.url === originalImageUrl) {
+            renditions[name] = { ...rendition, url: story.image_url };
+          } else if (isBase64DataURL(rendition.url)) {
+            const blob = await (await fetch(rendition.url)).blob();
+            const upload = await uploadToStorage(config, headers, imageFolder, story.id, blob, name);
+            if (upload.outcome !== 'done') return upload.outcome;
+            renditions[name] = { ...rendition, url: upload.url };
+          } else {
+            renditions[name] = rendition;
+          }
+        }
+        story.image_renditions = renditions;
+      }
+      const response = await fetch(`${rest}/stories`, {
+        method: 'POST',
+        headers: { ...headers, Prefer: 'return=minimal' },
+        body: JSON.stringify([story])
+      });
+      // 409: already inserted by an interrupted earlier attempt
+      return response.status === 409 ? 'done' : outcomeForStatus(response.status);
+    }
+    case 'toggleLike': {
+      const response = await fetch(`${rest}/rpc/toggle_like`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ p_story_id: entry.storyId, p_user_id: entry.userId, p_liked: entry.liked })
+      });
+      return outcomeForStatus(response.status);
+    }
+    case 'reportStory': {
+      const response = await fetch(`${rest}/rpc/report_story`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          p_story_id: entry.storyId,
+          p_user_id: entry.userId,
+          p_reason: entry.reason,
+          p_details: entry.details || null
+        })
+      });
+      return outcomeForStatus(response.status);
+    }
+    case 'deleteStory': {
+      const query = `id=eq.${encodeURIComponent(entry.storyId)}&user_id=eq.${encodeURIComponent(entry.userId)}`;
+      const response = await fetch(`${rest}/stories?${query}`, { method: 'DELETE', headers });
+      return outcomeForStatus(response.status);
+    }
+    default:
+      return 'drop';
+  }
+};
+
+const syncOutbox = async () => {
+  // An open tab replays through the app's own services
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length > 0) {
+    windows.forEach((client) => client.postMessage({ type: 'OUTBOX_SYNC' }));
+    return;
+  }
+
+  const db = await openOutbox();
+  const config = await idbRequest(db.transaction('meta').objectStore('meta').get('config'));
+  // The local backend lives in the app's IndexedDB: replayed on next launch
+  if (!config || config.backend !== 'supabase' || !config.supabaseUrl) return;
+
+  const entries = await idbRequest(db.transaction('entries').objectStore('entries').getAll());
+  for (const entry of entries) {
+    let outcome;
+    try {
+      outcome = await replayEntry(config, entry);
+    } catch (error) {
+      outcome = 'retry';
+    }
+    if (outcome === 'retry') {
+      // Rejecting makes the browser schedule another sync later
+      throw new Error('Outbox replay interrupted');
+    }
+    if (outcome === 'drop') {
+      console.warn('[Service Worker] Dropping rejected outbox entry:', entry.kind);
+    }
+    await idbRequest(db.transaction('entries', 'readwrite').objectStore('entries').delete(entry.seq));
+  }
+};
+
 self.addEventListener('sync', (event) => {
   console.log('[Service Worker] Background sync:', event.tag);
-  // Can be used to sync stories when back online
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(syncOutbox());
+  }
 });
 
 // Push notifications (future enhancement)
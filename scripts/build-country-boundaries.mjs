@@ -0,0 +1,145 @@
+// Génère services/countryBoundaries.data.ts : contours simplifiés des pays
+// pour la détection hors ligne (services/countryBoundaries.ts).
+//
+// Source : Natural Earth 1:110m (domaine public), au format TopoJSON du
+// paquet world-atlas ; les codes numériques ISO 3166 sont convertis en
+// alpha-2 avec codes.json du paquet i18n-iso-countries.
+//
+// Usage :
+//   npm pack world-atlas@2 i18n-iso-countries && tar xzf ...
+//   npm run build:boundaries -- <countries-110m.json> <codes.json> [countries-50m.json]
+//
+// Seuls les codes connus de COUNTRY_NAMES (services/countryService.ts) sont
+// gardés. Les arcs partagés par deux pays sont les frontières terrestres
+// (LAND_BORDERS) ; les autres sont des côtes.
+//
+// Les petits pays absents du 1:110m (Singapour, Monaco...) sont repris du
+// 1:50m s'il est fourni : leur contour recoupe celui du voisin, et un point
+// dans deux contours est vérifié en ligne.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const [topologyPath, codesPath, detailedTopologyPath] = process.argv.slice(2);
+if (!topologyPath || !codesPath) {
+  console.error('❌ Usage : build-country-boundaries.mjs <countries-110m.json> <codes.json> [countries-50m.json]');
+  process.exit(1);
+}
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const outputPath = join(root, 'services', 'countryBoundaries.data.ts');
+
+// ~1 km de précision : suffisant à l'échelle 1:110m
+const round = (value) => Math.round(value * 100) / 100;
+
+const topology = JSON.parse(readFileSync(topologyPath, 'utf8'));
+const codes = JSON.parse(readFileSync(codesPath, 'utf8'));
+const countryService = readFileSync(join(root, 'services', 'countryService.ts'), 'utf8');
+const knownCodes = new Set([...countryService.matchAll(/'([A-Z]{2})':/g)].map(match => match[1]));
+
+const alpha2ByNumeric = new Map(codes.map(([alpha2, , numeric]) => [numeric, alpha2]));
+
+// Arcs TopoJSON : positions quantifiées et codées en delta
+const decodeArcs = (topo) => {
+  const { scale, translate } = topo.transform;
+  return topo.arcs.map(arc => {
+    let x = 0;
+    let y = 0;
+    return arc.map(([dx, dy]) => {
+      x += dx;
+      y += dy;
+      return [x * scale[0] + translate[0], y * scale[1] + translate[1]];
+    });
+  });
+};
+
+// Index négatif ~i : arc i parcouru à l'envers
+const ringFromArcs = (arcs, arcIndexes) => {
+  const points = [];
+  arcIndexes.forEach((index, i) => {
+    const pts = index >= 0 ? arcs[index] : [...arcs[~index]].reverse();
+    // Le premier point d'un arc répète le dernier du précédent
+    points.push(...(i === 0 ? pts : pts.slice(1)));
+  });
+  return points;
+};
+
+// Anneaux à plat [lon, lat, lon, lat, ...], sans points consécutifs identiques après arrondi
+const flatten = (points) => {
+  const flat = [];
+  for (const [lon, lat] of points) {
+    const rx = round(lon);
+    const ry = round(lat);
+    if (flat.length >= 2 && flat[flat.length - 2] === rx && flat[flat.length - 1] === ry) continue;
+    flat.push(rx, ry);
+  }
+  return flat;
+};
+
+const polygonsOf = (geometry) =>
+  geometry.type === 'Polygon' ? [geometry.arcs] : geometry.type === 'MultiPolygon' ? geometry.arcs : [];
+
+const arcs = decodeArcs(topology);
+const geometries = topology.objects.countries.geometries;
+
+// Pays utilisant chaque arc (tous les pays, même ceux sans code ISO)
+const arcUsers = new Map();
+geometries.forEach((geometry, geometryIndex) => {
+  for (const polygon of polygonsOf(geometry)) {
+    for (const ring of polygon) {
+      for (const index of ring) {
+        const arcIndex = index >= 0 ? index : ~index;
+        if (!arcUsers.has(arcIndex)) arcUsers.set(arcIndex, new Set());
+        arcUsers.get(arcIndex).add(geometryIndex);
+      }
+    }
+  }
+});
+
+const countryPolygons = {};
+let skipped = 0;
+// Ajoute les contours des pays connus ; onlyMissing : pas ceux déjà présents
+const addCountries = (topo, topoArcs, onlyMissing) => {
+  for (const geometry of topo.objects.countries.geometries) {
+    const alpha2 = alpha2ByNumeric.get(geometry.id);
+    if (!alpha2 || !knownCodes.has(alpha2)) {
+      if (!onlyMissing) skipped++;
+      continue;
+    }
+    if (onlyMissing && countryPolygons[alpha2]) continue;
+    const polygons = polygonsOf(geometry)
+      .map(polygon => polygon.map(ring => flatten(ringFromArcs(topoArcs, ring))).filter(ring => ring.length >= 8))
+      .filter(polygon => polygon.length > 0);
+    countryPolygons[alpha2] = [...(countryPolygons[alpha2] || []), ...polygons];
+  }
+};
+
+addCountries(topology, arcs, false);
+let detailedCount = 0;
+if (detailedTopologyPath) {
+  const detailed = JSON.parse(readFileSync(detailedTopologyPath, 'utf8'));
+  const before = Object.keys(countryPolygons).length;
+  addCountries(detailed, decodeArcs(detailed), true);
+  detailedCount = Object.keys(countryPolygons).length - before;
+}
+
+const landBorders = [...arcUsers.entries()]
+  .filter(([, users]) => users.size >= 2)
+  .map(([arcIndex]) => flatten(arcs[arcIndex]))
+  .filter(line => line.length >= 4);
+
+const output = `// Généré par scripts/build-country-boundaries.mjs : ne pas modifier à la main.
+// Source : Natural Earth 1:110m (domaine public), via le paquet world-atlas.${detailedCount ? `
+// Pays absents du 1:110m repris du 1:50m : ${detailedCount}.` : ''}
+
+// Code ISO 3166-1 alpha-2 → polygones → anneaux [lon, lat, lon, lat, ...]
+// (le premier anneau est le contour extérieur, les suivants des trous)
+export const COUNTRY_POLYGONS: Record<string, number[][][]> = ${JSON.stringify(countryPolygons)};
+
+// Frontières terrestres (arcs partagés par deux pays) : [lon, lat, lon, lat, ...]
+export const LAND_BORDERS: number[][] = ${JSON.stringify(landBorders)};
+`;
+
+writeFileSync(outputPath, output);
+console.log(`✅ ${Object.keys(countryPolygons).length} pays dont ${detailedCount} du 1:50m, ${landBorders.length} frontières (${skipped} contours ignorés)`);
+console.log(`   → ${outputPath} (${(output.length / 1024).toFixed(0)} Ko)`);
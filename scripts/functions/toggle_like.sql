@@ -0,0 +1,42 @@
+-- Like/unlike atomique : p_liked NULL inverse l'état, TRUE/FALSE le fixe (idempotent)
+-- Le compteur stories.likes est maintenu par les triggers de story_likes
+CREATE OR REPLACE FUNCTION public.toggle_like(
+  p_story_id text,
+  p_user_id uuid,
+  p_liked boolean DEFAULT NULL
+) RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_has_liked boolean;
+  v_likes integer;
+BEGIN
+  PERFORM 1 FROM stories WHERE id = p_story_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_has_liked := COALESCE(p_liked, NOT EXISTS (
+    SELECT 1 FROM story_likes
+    WHERE story_id = p_story_id AND user_id = p_user_id
+  ));
+
+  IF v_has_liked THEN
+    INSERT INTO story_likes (story_id, user_id)
+    VALUES (p_story_id, p_user_id)
+    ON CONFLICT (story_id, user_id) DO NOTHING;
+  ELSE
+    DELETE FROM story_likes
+    WHERE story_id = p_story_id AND user_id = p_user_id;
+  END IF;
+
+  SELECT likes INTO v_likes FROM stories WHERE id = p_story_id;
+
+  RETURN json_build_object('likes', v_likes, 'has_liked', v_has_liked);
+END;
+$$;
+
+-- Ancienne fonction remplacée
+DROP FUNCTION IF EXISTS public.increment_story_likes(text, integer);
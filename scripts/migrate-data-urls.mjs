@@ -0,0 +1,169 @@
+// Migration : déplace les images stockées en data URL base64 dans `stories.image_url`
+// et `stories.image_renditions` vers le bucket Storage `stories` (images/ pour les
+// photos, posters/ pour les vidéos) puis remplace ces URLs par les URLs publiques.
+//
+// Usage :
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run migrate:media
+//   npm run migrate:media -- --dry-run   (liste les lignes sans rien modifier)
+//
+// La clé service_role est nécessaire : les policies RLS n'autorisent pas
+// l'UPDATE de image_url avec la clé anon. Le script est rejouable : une ligne
+// déjà migrée n'est plus sélectionnée.
+import { createClient } from '@supabase/supabase-js';
+
+const BUCKET = 'stories';
+const BATCH_SIZE = 20;
+// Tailles de photo (voir RENDITION_SPECS dans services/mediaProcessing.ts)
+const RENDITION_NAMES = ['full', 'feed', 'thumb'];
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const dryRun = process.argv.includes('--dry-run');
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('❌ SUPABASE_URL et SUPABASE_SERVICE_ROLE_KEY sont requis');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false }
+});
+
+// Même arborescence que mediaStoragePath (services/backend.ts)
+const storagePath = (folder, storyId, contentType, rendition = 'full') => {
+  const subtype = (contentType.split('/')[1] || '').replace(/[^a-z0-9]/gi, '').toLowerCase();
+  const ext = subtype === 'jpeg' ? 'jpg' : subtype || 'jpg';
+  const suffix = rendition === 'full' ? '' : `_${rendition}`;
+  return `${folder}/${storyId}${suffix}.${ext}`;
+};
+
+const isBase64DataURL = (url) => typeof url === 'string' && url.startsWith('data:') && url.includes(';base64,');
+
+// "data:image/jpeg;base64,..." -> { contentType, bytes }
+const decodeDataURL = (dataUrl) => {
+  const [header, data] = dataUrl.split(',');
+  const contentType = header.slice('data:'.length).split(';')[0] || 'image/jpeg';
+  return { contentType, bytes: Buffer.from(data, 'base64') };
+};
+
+// Upload d'une data URL : URL publique, ou null en cas d'échec
+const uploadDataURL = async (row, dataUrl, rendition) => {
+  const { contentType, bytes } = decodeDataURL(dataUrl);
+  const folder = row.video_url ? 'posters' : 'images';
+  const path = storagePath(folder, row.id, contentType, rendition);
+
+  if (dryRun) {
+    console.log(`  • ${row.id} → ${path} (${Math.round(bytes.length / 1024)} Ko)`);
+    return path;
+  }
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, bytes, { contentType, upsert: true });
+  if (uploadError) {
+    console.error(`  ✗ ${row.id} : upload impossible (${path})`, uploadError.message);
+    return null;
+  }
+
+  const { data: { publicUrl } } = supabase.storage.from(BUCKET).getPublicUrl(path);
+  return publicUrl;
+};
+
+const migrateRow = async (row) => {
+  const update = {};
+
+  if (isBase64DataURL(row.image_url)) {
+    const url = await uploadDataURL(row, row.image_url, 'full');
+    if (!url) return false;
+    update.image_url = url;
+  }
+
+  if (row.image_renditions) {
+    const renditions = {};
+    let changed = false;
+    for (const [name, rendition] of Object.entries(row.image_renditions)) {
+      if (!rendition?.url?.startsWith('data:')) {
+        renditions[name] = rendition;
+        continue;
+      }
+      changed = true;
+      // La taille "full" est l'image principale, déjà envoyée
+      if ((name === 'full' || rendition.url === row.image_url) && update.image_url) {
+        renditions[name] = { ...rendition, url: update.image_url };
+      } else if (isBase64DataURL(rendition.url)) {
+        const url = await uploadDataURL(row, rendition.url, name);
+        if (!url) return false;
+        renditions[name] = { ...rendition, url };
+      }
+      // Data URL illisible : la taille est retirée (srcset sans elle)
+    }
+    if (changed) update.image_renditions = Object.keys(renditions).length > 0 ? renditions : null;
+  }
+
+  if (dryRun) return true;
+  if (Object.keys(update).length === 0) {
+    // Sélectionnée mais rien d'utilisable : laissée telle quelle
+    console.error(`  ✗ ${row.id} : data URL non reconnue`);
+    return false;
+  }
+
+  const { error: updateError } = await supabase
+    .from('stories')
+    .update(update)
+    .eq('id', row.id);
+  if (updateError) {
+    console.error(`  ✗ ${row.id} : mise à jour impossible`, updateError.message);
+    return false;
+  }
+
+  console.log(`  ✓ ${row.id} (${Object.keys(update).join(', ')})`);
+  return true;
+};
+
+const main = async () => {
+  console.log(dryRun ? '🔍 Dry run : aucune modification' : '🚚 Migration des images en data URL');
+
+  let migrated = 0;
+  let failed = 0;
+  // Les lignes en échec restent en data URL : on les saute au lot suivant
+  const skipped = new Set();
+
+  for (;;) {
+    let query = supabase
+      .from('stories')
+      .select('id, image_url, image_renditions, video_url')
+      // Image principale ou une de ses tailles encore en data URL
+      .or([
+        'image_url.like.data:*base64*',
+        ...RENDITION_NAMES.map(name => `image_renditions->${name}->>url.like.data:*`)
+      ].join(','))
+      .order('id')
+      .limit(BATCH_SIZE);
+    if (skipped.size > 0) {
+      query = query.not('id', 'in', `(${[...skipped].map(id => `"${id}"`).join(',')})`);
+    }
+
+    const { data: rows, error } = await query;
+    if (error) {
+      console.error('❌ Lecture des stories impossible :', error.message);
+      process.exit(1);
+    }
+    if (!rows || rows.length === 0) break;
+
+    for (const row of rows) {
+      const done = await migrateRow(row);
+      if (done) {
+        migrated++;
+      } else {
+        failed++;
+      }
+      // En dry run, rien n'est modifié : chaque ligne ne doit être listée qu'une fois
+      if (dryRun || !done) skipped.add(row.id);
+    }
+  }
+
+  console.log(`\n${dryRun ? 'À migrer' : 'Migrées'} : ${migrated}, en échec : ${failed}`);
+  process.exit(failed > 0 ? 1 : 0);
+};
+
+main();
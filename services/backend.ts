@@ -0,0 +1,343 @@
+import { CheckIn, ImageRenditionName, ImageRenditions, SpotCategory, SpotRecord, Story, User } from '../types';
+import { Result } from './result';
+
+// Interface commune aux backends de stockage (Supabase en production,
+// IndexedDB en local). Les services exposés par `supabaseService.ts`
+// délèguent tous au backend choisi par `resolveBackendKind()`.
+// Chaque appel renvoie un Result (voir services/result.ts) : jamais d'exception.
+
+// Types pour Supabase (le backend local stocke les mêmes lignes)
+export interface SupabaseStory {
+  id: string;
+  user_id: string;
+  username: string;
+  user_avatar: string;
+  image_url: string;
+  // Tailles de la photo (miniature, feed, pleine taille) pour le srcset
+  image_renditions?: ImageRenditions | null;
+  video_url?: string;
+  caption: string;
+  vibe_tags: string[];
+  latitude: number;
+  longitude: number;
+  location_name: string;
+  country_code: string; // ISO 3166-1 alpha-2
+  // Spot persistant, rempli à l'insertion si absent (trigger assign_story_spot)
+  spot_id?: string | null;
+  likes: number;
+  created_at: string;
+  expires_at: string;
+  // Colonnes de modération (voir supabase-moderation.sql)
+  reports_count?: number;
+  is_hidden?: boolean;
+}
+
+export interface SupabaseSpot {
+  id: string;
+  name: string;
+  aliases: string[];
+  category: SpotCategory;
+  latitude: number;
+  longitude: number;
+  country_code: string;
+  description: string;
+  created_at: string;
+}
+
+export interface SupabaseCheckIn {
+  id: string;
+  user_id: string;
+  spot_id: string;
+  location_name: string;
+  latitude: number;
+  longitude: number;
+  country_code: string;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface SupabaseUser {
+  id: string;
+  username: string;
+  avatar_url: string;
+  created_at: string;
+}
+
+// Réponse de la fonction RPC toggle_like() (NULL si la story n'existe pas)
+export interface SupabaseLikeState {
+  likes: number;
+  has_liked: boolean;
+}
+
+// Convertir Story (app) vers SupabaseStory
+export const storyToSupabase = (story: Story): SupabaseStory => ({
+  id: story.id,
+  user_id: story.userId,
+  username: story.username,
+  user_avatar: story.userAvatar,
+  image_url: story.imageUrl,
+  image_renditions: story.imageRenditions,
+  video_url: story.videoUrl,
+  caption: story.caption,
+  vibe_tags: story.vibeTags,
+  latitude: story.latitude,
+  longitude: story.longitude,
+  location_name: story.locationName,
+  country_code: story.countryCode || 'XX', // Fallback si non défini
+  spot_id: story.spotId,
+  likes: story.likes || 0,
+  created_at: new Date(story.timestamp).toISOString(),
+  expires_at: new Date(story.expiresAt).toISOString(),
+});
+
+// Convertir SupabaseStory vers Story (app)
+export const supabaseToStory = (sb: SupabaseStory): Story => ({
+  id: sb.id,
+  userId: sb.user_id,
+  username: sb.username,
+  userAvatar: sb.user_avatar,
+  imageUrl: sb.image_url,
+  imageRenditions: sb.image_renditions || undefined,
+  videoUrl: sb.video_url,
+  timestamp: new Date(sb.created_at).getTime(),
+  caption: sb.caption,
+  vibeTags: sb.vibe_tags,
+  expiresAt: new Date(sb.expires_at).getTime(),
+  latitude: sb.latitude,
+  longitude: sb.longitude,
+  locationName: sb.location_name,
+  countryCode: sb.country_code,
+  spotId: sb.spot_id || undefined,
+  likes: sb.likes,
+});
+
+export const supabaseToSpotRecord = (sb: SupabaseSpot): SpotRecord => ({
+  id: sb.id,
+  name: sb.name,
+  aliases: sb.aliases || [],
+  category: sb.category || 'other',
+  latitude: sb.latitude,
+  longitude: sb.longitude,
+  countryCode: sb.country_code,
+  description: sb.description || ''
+});
+
+export const spotRecordToSupabase = (spot: SpotRecord, createdAt: string): SupabaseSpot => ({
+  id: spot.id,
+  name: spot.name,
+  aliases: spot.aliases,
+  category: spot.category,
+  latitude: spot.latitude,
+  longitude: spot.longitude,
+  country_code: spot.countryCode,
+  description: spot.description,
+  created_at: createdAt
+});
+
+export const supabaseToCheckIn = (sb: SupabaseCheckIn): CheckIn => ({
+  id: sb.id,
+  userId: sb.user_id,
+  spotId: sb.spot_id || undefined,
+  locationName: sb.location_name,
+  latitude: sb.latitude,
+  longitude: sb.longitude,
+  countryCode: sb.country_code,
+  timestamp: new Date(sb.created_at).getTime(),
+  expiresAt: new Date(sb.expires_at).getTime()
+});
+
+export type ReportReason = 'spam' | 'inappropriate' | 'off_topic' | 'harassment' | 'other';
+
+// Signalement enregistré (un refus est renvoyé comme erreur du Result)
+export interface ReportResult {
+  message: string;
+  reportsCount?: number;
+  isHidden?: boolean;
+}
+
+// Raisons par défaut (identiques à get_report_reasons() côté SQL)
+export const DEFAULT_REPORT_REASONS: Array<{ value: ReportReason; label: string }> = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'inappropriate', label: 'Contenu inapproprié' },
+  { value: 'off_topic', label: 'Hors sujet' },
+  { value: 'harassment', label: 'Harcèlement' },
+  { value: 'other', label: 'Autre' }
+];
+
+// Seuil de masquage automatique (voir auto_hide_story_on_reports)
+export const AUTO_HIDE_REPORTS_THRESHOLD = 3;
+
+// Changement sur la table stories, au format des payloads Supabase Realtime
+export interface StoryChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Partial<SupabaseStory>;
+  old: Partial<SupabaseStory>;
+}
+
+// Changement sur la table check_ins (un nouveau check-in supprime l'ancien)
+export interface CheckInChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Partial<SupabaseCheckIn>;
+  old: Partial<SupabaseCheckIn>;
+}
+
+// Curseur de pagination keyset : (created_at, id) de la dernière story reçue
+export interface StoriesCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface StoriesPage {
+  stories: Story[];
+  // null quand il n'y a plus de page à charger
+  nextCursor: StoriesCursor | null;
+}
+
+// Zone de recherche "Near Me" (pré-filtre rectangulaire côté serveur)
+export interface NearbyQuery {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+export interface StoriesPageOptions {
+  countryCode?: string | null;
+  near?: NearbyQuery | null;
+  cursor?: StoriesCursor | null;
+  limit?: number;
+}
+
+export const DEFAULT_STORIES_PAGE_SIZE = 20;
+
+// État d'un like après écriture (compteur + like de l'utilisateur)
+export interface LikeState {
+  likes: number;
+  hasLiked: boolean;
+}
+
+export interface CountryCount {
+  code: string;
+  name: string;
+  count: number;
+}
+
+export interface StoriesBackend {
+  getActiveStories(countryCode?: string | null): Promise<Result<Story[]>>;
+  // Stories actives triées par (created_at, id) décroissants, page par page
+  getActiveStoriesPage(options: StoriesPageOptions): Promise<Result<StoriesPage>>;
+  getAvailableCountries(): Promise<Result<CountryCount[]>>;
+  // Une story par id, quel que soit le pays (liens partagés ?story=) ;
+  // not_found si elle n'existe pas, a expiré ou a été masquée
+  getStory(storyId: string): Promise<Result<Story>>;
+  createStory(story: Story): Promise<Result<Story>>;
+  // not_found si la story n'existe pas, permission_denied si la suppression
+  // est refusée (story d'un autre utilisateur, RLS)
+  deleteStory(storyId: string, userId: string): Promise<Result<void>>;
+  // liked omis : inverse l'état actuel ; sinon fixe l'état voulu (idempotent)
+  toggleLike(storyId: string, userId: string, liked?: boolean): Promise<Result<LikeState>>;
+  getUserLikes(userId: string): Promise<Result<Set<string>>>;
+  getStoriesLikeCounts(storyIds: string[]): Promise<Result<Record<string, number>>>;
+}
+
+export interface SpotsBackend {
+  // Spots demandés qui existent encore (les ids inconnus sont ignorés)
+  getSpots(spotIds: string[]): Promise<Result<SpotRecord[]>>;
+}
+
+// Check-in demandé : position de l'utilisateur et spot où il se déclare
+export interface CheckInRequest {
+  userId: string;
+  // Spot persistant ; sinon résolu par nom et position du spot, comme pour une story
+  spotId?: string;
+  locationName: string;
+  spotLatitude: number;
+  spotLongitude: number;
+  // Position de l'utilisateur, à moins de CHECK_IN_RADIUS_M du spot
+  latitude: number;
+  longitude: number;
+  countryCode: string;
+}
+
+export interface CheckInsBackend {
+  getActiveCheckIns(countryCode?: string | null): Promise<Result<CheckIn[]>>;
+  // Remplace le check-in actif de l'utilisateur ; validation si la position
+  // est à plus de CHECK_IN_RADIUS_M du spot (voir services/checkIns.ts)
+  checkIn(request: CheckInRequest): Promise<Result<CheckIn>>;
+}
+
+export interface UsersBackend {
+  createAnonymousUser(username: string, avatarUrl: string): Promise<Result<string>>;
+  getUser(userId: string): Promise<Result<User>>;
+}
+
+export interface ModerationBackend {
+  reportStory(storyId: string, userId: string, reason: ReportReason, details?: string): Promise<Result<ReportResult>>;
+  getReportReasons(): Promise<Result<Array<{ value: ReportReason; label: string }>>>;
+}
+
+// Photo d'une story, ou poster (première image) d'une story vidéo
+export type ImageKind = 'photo' | 'poster';
+
+export interface MediaBackend {
+  uploadVideo(blob: Blob, storyId: string): Promise<Result<string>>;
+  // rendition : taille produite à la capture (pleine taille si absente)
+  uploadImage(blob: Blob, storyId: string, kind: ImageKind, rendition?: ImageRenditionName): Promise<Result<string>>;
+}
+
+const IMAGE_FOLDERS: Record<ImageKind, string> = { photo: 'images', poster: 'posters' };
+
+// Chemin dans le bucket `stories` : videos/, images/ ou posters/<storyId>.<ext>
+// (<storyId>_thumb.<ext>, <storyId>_feed.<ext> pour les tailles réduites)
+export const mediaStoragePath = (
+  media: 'video' | ImageKind,
+  storyId: string,
+  contentType: string,
+  rendition: ImageRenditionName = 'full'
+): string => {
+  const fallbackExt = media === 'video' ? 'mp4' : 'jpg';
+  const extFromType = contentType.includes('/') ? contentType.split('/')[1] : fallbackExt;
+  const fileExt = (extFromType || fallbackExt).replace(/[^a-z0-9]/gi, '').toLowerCase() || fallbackExt;
+  const folder = media === 'video' ? 'videos' : IMAGE_FOLDERS[media];
+  const suffix = rendition === 'full' ? '' : `_${rendition}`;
+  return `${folder}/${storyId}${suffix}.${fileExt === 'jpeg' ? 'jpg' : fileExt}`;
+};
+
+export type RealtimeStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface RealtimeBackend {
+  // Retourne une fonction de désabonnement
+  subscribeToStories(onChange: (change: StoryChange) => void): () => void;
+  // Check-ins ajoutés ou remplacés (DELETE de l'ancien check-in)
+  subscribeToCheckIns(onChange: (change: CheckInChange) => void): () => void;
+  // Likes ajoutés/retirés sur les stories données. storyId est null quand
+  // le payload ne permet pas de savoir quelle story est concernée.
+  subscribeToStoryLikes(
+    storyIds: string[],
+    onLikeChange: (storyId: string | null) => void,
+    onStatusChange?: (status: RealtimeStatus) => void
+  ): () => void;
+}
+
+export type BackendKind = 'supabase' | 'local';
+
+export interface StorageBackend {
+  kind: BackendKind;
+  stories: StoriesBackend;
+  spots: SpotsBackend;
+  checkIns: CheckInsBackend;
+  users: UsersBackend;
+  moderation: ModerationBackend;
+  media: MediaBackend;
+  realtime: RealtimeBackend;
+}
+
+// Choix du backend :
+// - VITE_STORAGE_BACKEND=local|supabase force le choix
+// - sinon Supabase si VITE_SUPABASE_URL est défini, local sinon
+export const resolveBackendKind = (env: ImportMetaEnv = import.meta.env): BackendKind => {
+  const requested = env.VITE_STORAGE_BACKEND?.toLowerCase();
+  if (requested === 'local' || requested === 'supabase') {
+    return requested;
+  }
+  return env.VITE_SUPABASE_URL ? 'supabase' : 'local';
+};
@@ -0,0 +1,55 @@
+import { CheckIn, Spot } from '../types';
+import { CheckInChange, SupabaseCheckIn, supabaseToCheckIn } from './backend';
+import { haversineDistanceKm } from './geoService';
+
+// Check-ins : "je suis là" sur un spot, sans poster de story. Un check-in
+// expire comme une story mais plus vite (on ne reste pas 24 h au même
+// endroit) ; un utilisateur n'en a qu'un actif à la fois, le suivant le
+// remplace. Mêmes règles que check_in() dans supabase-setup.sql.
+
+export const CHECK_IN_LIFETIME_MS = 3 * 60 * 60 * 1000;
+// Distance maximale entre l'utilisateur et le spot (marge pour le GPS)
+export const CHECK_IN_RADIUS_M = 200;
+
+export const distanceToSpotM = (spot: Pick<Spot, 'latitude' | 'longitude'>, latitude: number, longitude: number): number =>
+  haversineDistanceKm(latitude, longitude, spot.latitude, spot.longitude) * 1000;
+
+export const isCloseEnoughToCheckIn = (spot: Pick<Spot, 'latitude' | 'longitude'>, latitude: number, longitude: number): boolean =>
+  distanceToSpotM(spot, latitude, longitude) <= CHECK_IN_RADIUS_M;
+
+// "N personnes ici" : utilisateurs distincts parmi les check-ins actifs
+export const countPeopleHere = (checkIns: CheckIn[], now: number = Date.now()): number =>
+  new Set(checkIns.filter(checkIn => checkIn.expiresAt > now).map(checkIn => checkIn.userId)).size;
+
+const isCompleteRow = (row: Partial<SupabaseCheckIn>): row is SupabaseCheckIn =>
+  !!row.id && !!row.user_id && !!row.created_at && !!row.expires_at &&
+  row.latitude !== undefined && row.longitude !== undefined;
+
+// Changement Realtime appliqué à la liste (la même référence si rien ne change)
+export const applyCheckInChange = (
+  checkIns: CheckIn[],
+  change: CheckInChange,
+  countryCode?: string | null,
+  now: number = Date.now()
+): CheckIn[] => {
+  const id = change.new.id || change.old.id;
+  if (!id) return checkIns;
+  const rest = checkIns.filter(checkIn => checkIn.id !== id);
+
+  if (change.eventType === 'DELETE') {
+    return rest.length === checkIns.length ? checkIns : rest;
+  }
+
+  const row = change.new;
+  const visible = isCompleteRow(row) &&
+    new Date(row.expires_at).getTime() > now &&
+    (!countryCode || countryCode === 'ALL' || row.country_code === countryCode);
+  if (!visible) {
+    return rest.length === checkIns.length ? checkIns : rest;
+  }
+
+  // Un seul check-in actif par utilisateur, même si la suppression de
+  // l'ancien arrive après
+  const checkIn = supabaseToCheckIn(row);
+  return [checkIn, ...rest.filter(other => other.userId !== checkIn.userId)];
+};
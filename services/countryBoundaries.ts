@@ -0,0 +1,163 @@
+// Détection du pays hors ligne : point dans polygone sur les contours
+// simplifiés de services/countryBoundaries.data.ts (Natural Earth 1:110m,
+// 1:50m pour les petits pays, régénérés par scripts/build-country-boundaries.mjs).
+//
+// À cette échelle les contours sont décalés de quelques kilomètres, et ceux
+// des petits pays (Singapour, Monaco...) recoupent leurs voisins : seul un
+// point à l'intérieur d'un seul contour, loin de toute frontière, est
+// 'found'. Près d'une frontière terrestre, dans deux contours ou juste hors
+// des côtes (port, presqu'île), la réponse est 'border' et doit être
+// vérifiée en ligne.
+
+import { ringContainsPoint } from './geoService';
+
+export type OfflineCountryResult =
+  // Un seul pays possible
+  | { status: 'found'; countryCode: string }
+  // Trop près d'une frontière ou hors des contours près d'une côte :
+  // countryCode est le meilleur candidat
+  | { status: 'border'; countryCode: string | null }
+  // En mer, ou contours indisponibles
+  | { status: 'unknown' };
+
+// Marge autour des frontières terrestres, supérieure à l'erreur du 1:110m
+const BORDER_MARGIN_KM = 25;
+// Distance maximale à la côte pour proposer un candidat hors des contours
+const COAST_MARGIN_KM = 30;
+
+const KM_PER_DEGREE_LAT = 110.57;
+const KM_PER_DEGREE_LON = 111.32;
+
+interface BBox {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+interface IndexedLine {
+  coords: number[];
+  bbox: BBox;
+}
+
+interface IndexedPolygon {
+  rings: number[][];
+  bbox: BBox;
+}
+
+interface BoundaryIndex {
+  countries: { code: string; polygons: IndexedPolygon[] }[];
+  borders: IndexedLine[];
+}
+
+const bboxOf = (coords: number[]): BBox => {
+  const bbox = { minLon: Infinity, minLat: Infinity, maxLon: -Infinity, maxLat: -Infinity };
+  for (let i = 0; i < coords.length; i += 2) {
+    bbox.minLon = Math.min(bbox.minLon, coords[i]);
+    bbox.maxLon = Math.max(bbox.maxLon, coords[i]);
+    bbox.minLat = Math.min(bbox.minLat, coords[i + 1]);
+    bbox.maxLat = Math.max(bbox.maxLat, coords[i + 1]);
+  }
+  return bbox;
+};
+
+// Boîte agrandie de marginKm (la marge en longitude grandit avec la latitude)
+const isNearBBox = (bbox: BBox, lat: number, lon: number, marginKm: number): boolean => {
+  const marginLat = marginKm / KM_PER_DEGREE_LAT;
+  const marginLon = marginKm / (KM_PER_DEGREE_LON * Math.max(0.01, Math.cos((lat * Math.PI) / 180)));
+  return (
+    lat >= bbox.minLat - marginLat && lat <= bbox.maxLat + marginLat &&
+    lon >= bbox.minLon - marginLon && lon <= bbox.maxLon + marginLon
+  );
+};
+
+// Premier anneau : contour extérieur, les suivants sont des trous
+const polygonContains = (polygon: IndexedPolygon, lat: number, lon: number): boolean =>
+  isNearBBox(polygon.bbox, lat, lon, 0) &&
+  ringContainsPoint(polygon.rings[0], lat, lon) &&
+  !polygon.rings.slice(1).some(hole => ringContainsPoint(hole, lat, lon));
+
+// Distance (km) du point à une polyligne, en projection équirectangulaire
+// centrée sur le point : assez précis à l'échelle de quelques dizaines de km
+const distanceToLineKm = (coords: number[], lat: number, lon: number): number => {
+  const kmPerDegreeLon = KM_PER_DEGREE_LON * Math.cos((lat * Math.PI) / 180);
+  const toX = (x: number) => (((x - lon + 540) % 360) - 180) * kmPerDegreeLon;
+  const toY = (y: number) => (y - lat) * KM_PER_DEGREE_LAT;
+
+  let best = Infinity;
+  for (let i = 0; i + 3 < coords.length; i += 2) {
+    const ax = toX(coords[i]), ay = toY(coords[i + 1]);
+    const bx = toX(coords[i + 2]), by = toY(coords[i + 3]);
+    const dx = bx - ax, dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    // Projection de l'origine (le point) sur le segment
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+};
+
+// Les contours (~165 Ko) sont chargés à la première détection, dans leur
+// propre chunk, puis indexés une fois
+let indexPromise: Promise<BoundaryIndex | null> | null = null;
+
+const loadIndex = (): Promise<BoundaryIndex | null> => {
+  if (!indexPromise) {
+    indexPromise = import('./countryBoundaries.data')
+      .then(({ COUNTRY_POLYGONS, LAND_BORDERS }) => ({
+        countries: Object.entries(COUNTRY_POLYGONS).map(([code, polygons]) => ({
+          code,
+          polygons: polygons.map(rings => ({ rings, bbox: bboxOf(rings[0]) }))
+        })),
+        borders: LAND_BORDERS.map(coords => ({ coords, bbox: bboxOf(coords) }))
+      }))
+      .catch(error => {
+        // Chunk introuvable (déploiement en cours...) : on retentera
+        console.warn('Country boundaries not loaded:', error);
+        indexPromise = null;
+        return null;
+      });
+  }
+  return indexPromise;
+};
+
+export const resolveCountryOffline = async (
+  latitude: number,
+  longitude: number
+): Promise<OfflineCountryResult> => {
+  const index = await loadIndex();
+  if (!index) return { status: 'unknown' };
+
+  const containing = index.countries
+    .filter(country => country.polygons.some(polygon => polygonContains(polygon, latitude, longitude)))
+    .map(country => country.code);
+
+  const nearBorder = index.borders.some(
+    border =>
+      isNearBBox(border.bbox, latitude, longitude, BORDER_MARGIN_KM) &&
+      distanceToLineKm(border.coords, latitude, longitude) <= BORDER_MARGIN_KM
+  );
+  // Contours qui se chevauchent après simplification : même traitement
+  if (nearBorder || containing.length > 1) {
+    return { status: 'border', countryCode: containing[0] ?? null };
+  }
+  if (containing.length === 1) {
+    return { status: 'found', countryCode: containing[0] };
+  }
+
+  // Hors des contours : côte d'un seul pays à moins de COAST_MARGIN_KM, proposée
+  // comme candidat seulement (contours décalés de quelques kilomètres)
+  const nearCoast = index.countries
+    .filter(country =>
+      country.polygons.some(
+        polygon =>
+          isNearBBox(polygon.bbox, latitude, longitude, COAST_MARGIN_KM) &&
+          distanceToLineKm(polygon.rings[0], latitude, longitude) <= COAST_MARGIN_KM
+      )
+    )
+    .map(country => country.code);
+  if (nearCoast.length === 1) {
+    return { status: 'border', countryCode: nearCoast[0] };
+  }
+  return { status: 'unknown' };
+};
@@ -1,3 +1,6 @@
+import { geocodingService } from './geocodingService';
+import { resolveCountryOffline } from './countryBoundaries';
+
 // Service pour la détection et gestion des pays
 
 // Mapping ISO 3166-1 alpha-2 vers noms de pays
@@ -67,29 +70,24 @@ const COUNTRY_NAMES: Record<string, string> = {
   'ZM': 'Zambie', 'ZW': 'Zimbabwe', 'XX': 'Inconnu'
 };
 
-// Détecter le pays depuis les coordonnées GPS via Nominatim
+// Détecter le pays depuis les coordonnées GPS : contours embarqués d'abord
+// (sans réseau), géocodage inverse seulement près d'une frontière ou hors des
+// contours connus
 export const detectCountryFromCoordinates = async (
   latitude: number,
   longitude: number
 ): Promise<string | null> => {
-  try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=3`
-    );
-    const data = await response.json();
-    
-    // Nominatim retourne le code pays en ISO 3166-1 alpha-2
-    const countryCode = data.address?.country_code?.toUpperCase();
-    
-    if (countryCode && countryCode.length === 2) {
-      return countryCode;
-    }
-    
-    return null;
-  } catch (error) {
-    console.error('Error detecting country:', error);
-    return null;
-  }
+  const offline = await resolveCountryOffline(latitude, longitude);
+  if (offline.status === 'found') return offline.countryCode;
+
+  const result = await geocodingService.reverse(latitude, longitude, { zoom: 3 });
+  // Réseau indisponible : meilleur candidat des contours, s'il y en a un
+  const fallback = offline.status === 'border' ? offline.countryCode : null;
+  if (!result.ok) return fallback;
+
+  // Code ISO 3166-1 alpha-2
+  const countryCode = result.data.address.countryCode;
+  return countryCode && countryCode.length === 2 ? countryCode : fallback;
 };
 
 // Obtenir le nom du pays depuis son code
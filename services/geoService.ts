@@ -0,0 +1,68 @@
+// Calculs géographiques (distances, zones de recherche)
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+// Distance orthodromique entre deux points (formule de haversine), en km
+export const haversineDistanceKm = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Point dans un anneau à plat [lon, lat, lon, lat, ...] (test pair-impair,
+// rayon horizontal). Suffisant tant que l'anneau ne traverse pas l'antiméridien.
+export const ringContainsPoint = (ring: number[], lat: number, lon: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 2; i < ring.length; j = i, i += 2) {
+    const xi = ring[i], yi = ring[i + 1];
+    const xj = ring[j], yj = ring[j + 1];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+// Rectangle lat/lon englobant le cercle de rayon donné.
+// Sert de pré-filtre indexable (idx_stories_location) avant le calcul exact.
+export const boundingBoxAround = (lat: number, lon: number, radiusKm: number): BoundingBox => {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const cosLat = Math.cos(toRadians(lat));
+  // Près des pôles, le cercle couvre toutes les longitudes
+  const lonDelta = cosLat < 1e-6 ? 180 : latDelta / cosLat;
+  const minLon = lon - lonDelta;
+  const maxLon = lon + lonDelta;
+  // Si le cercle traverse l'antiméridien, on ne filtre pas sur la longitude
+  const wraps = minLon < -180 || maxLon > 180;
+
+  return {
+    minLat: Math.max(-90, lat - latDelta),
+    maxLat: Math.min(90, lat + latDelta),
+    minLon: wraps ? -180 : minLon,
+    maxLon: wraps ? 180 : maxLon
+  };
+};
+
+// "350 m", "1.2 km", "12 km"
+export const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.max(10, Math.round((km * 1000) / 10) * 10)} m`;
+  if (km < 10) return `${km.toFixed(1)} km`;
+  return `${Math.round(km)} km`;
+};
@@ -0,0 +1,231 @@
+import { Result, ok, fail, failWith } from './result';
+
+// Géocodage (coordonnées → adresse, recherche de lieux) derrière une interface
+// de fournisseur : Nominatim en production, fixtures locales pour le
+// développement hors ligne et les tests (voir services/geocodingService.ts).
+//
+// Le service ajoute au fournisseur :
+// - un cache persistant (localStorage) par "case" de coordonnées, dont la
+//   taille dépend du niveau de détail demandé
+// - un espacement minimal entre deux requêtes (Nominatim : 1 requête/s)
+// - la fusion des requêtes identiques en cours
+
+export type GeocodingProviderKind = 'nominatim' | 'local';
+
+// Sous-ensemble de l'adresse Nominatim utilisé par l'app
+export interface GeoAddress {
+  amenity?: string;
+  shop?: string;
+  road?: string;
+  neighbourhood?: string;
+  suburb?: string;
+  village?: string;
+  town?: string;
+  city?: string;
+  county?: string;
+  state?: string;
+  country?: string;
+  // ISO 3166-1 alpha-2, en majuscules
+  countryCode?: string;
+}
+
+export interface ReverseGeocodeResult {
+  displayName: string;
+  address: GeoAddress;
+}
+
+export interface PlaceSearchResult {
+  // Nom court (premier élément de displayName)
+  name: string;
+  displayName: string;
+  lat: number;
+  lon: number;
+}
+
+export interface GeocodingProvider {
+  kind: GeocodingProviderKind;
+  // Délai minimal entre deux requêtes (0 : pas de limite)
+  minIntervalMs: number;
+  // null : aucun lieu à ces coordonnées (océan...)
+  reverse(lat: number, lon: number, zoom: number): Promise<ReverseGeocodeResult | null>;
+  search(query: string): Promise<PlaceSearchResult[]>;
+}
+
+export interface ReverseOptions {
+  // Niveau de détail façon Nominatim : 3 pays, 10 ville, 18 bâtiment
+  zoom?: number;
+}
+
+export interface GeocodingService {
+  readonly kind: GeocodingProviderKind;
+  reverse(lat: number, lon: number, options?: ReverseOptions): Promise<Result<ReverseGeocodeResult>>;
+  search(query: string): Promise<Result<PlaceSearchResult[]>>;
+}
+
+export interface GeocodingCacheOptions {
+  storageKey?: string;
+  ttlMs?: number;
+  maxEntries?: number;
+}
+
+const DEFAULT_ZOOM = 18;
+const DEFAULT_CACHE_KEY = 'spotlive_geocoding_cache';
+// Les adresses changent rarement : une semaine de cache
+const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_CACHE_MAX_ENTRIES = 300;
+
+// Choix du fournisseur :
+// - VITE_GEOCODING_PROVIDER=local|nominatim force le choix
+// - sinon le même que le stockage : fixtures locales avec VITE_STORAGE_BACKEND=local
+export const resolveGeocodingProviderKind = (env: ImportMetaEnv = import.meta.env): GeocodingProviderKind => {
+  const requested = env.VITE_GEOCODING_PROVIDER?.toLowerCase();
+  if (requested === 'local' || requested === 'nominatim') {
+    return requested;
+  }
+  return env.VITE_STORAGE_BACKEND?.toLowerCase() === 'local' ? 'local' : 'nominatim';
+};
+
+// Décimales gardées selon le zoom : ~11 m au niveau bâtiment, ~1 km pour une
+// ville, ~100 km pour un pays
+const bucketDecimals = (zoom: number): number => {
+  if (zoom >= 16) return 4;
+  if (zoom >= 12) return 3;
+  if (zoom >= 8) return 2;
+  if (zoom >= 5) return 1;
+  return 0;
+};
+
+export const reverseCacheKey = (lat: number, lon: number, zoom: number): string => {
+  const decimals = bucketDecimals(zoom);
+  return `reverse:${zoom}:${lat.toFixed(decimals)}:${lon.toFixed(decimals)}`;
+};
+
+export const searchCacheKey = (query: string): string =>
+  `search:${query.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+// Cache clé → valeur en localStorage, avec expiration et nombre d'entrées borné
+const createPersistentCache = ({
+  storageKey = DEFAULT_CACHE_KEY,
+  ttlMs = DEFAULT_CACHE_TTL_MS,
+  maxEntries = DEFAULT_CACHE_MAX_ENTRIES
+}: GeocodingCacheOptions) => {
+  let entries: Record<string, CacheEntry> | null = null;
+
+  const load = (): Record<string, CacheEntry> => {
+    if (entries) return entries;
+    try {
+      entries = JSON.parse(localStorage.getItem(storageKey) || '{}');
+    } catch {
+      entries = {};
+    }
+    return entries!;
+  };
+
+  const save = () => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(entries));
+    } catch (error) {
+      // Quota dépassé : le cache reste en mémoire pour la session
+      console.warn('Geocoding cache not persisted:', error);
+    }
+  };
+
+  return {
+    get(key: string): { value: unknown } | null {
+      const entry = load()[key];
+      if (!entry) return null;
+      if (Date.now() - entry.storedAt > ttlMs) {
+        delete load()[key];
+        return null;
+      }
+      return { value: entry.value };
+    },
+    set(key: string, value: unknown) {
+      const all = load();
+      all[key] = { value, storedAt: Date.now() };
+      const keys = Object.keys(all);
+      if (keys.length > maxEntries) {
+        // Les plus anciennes d'abord
+        keys
+          .sort((a, b) => all[a].storedAt - all[b].storedAt)
+          .slice(0, keys.length - maxEntries)
+          .forEach(k => delete all[k]);
+      }
+      save();
+    }
+  };
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createGeocodingService = (
+  provider: GeocodingProvider,
+  cacheOptions: GeocodingCacheOptions = {}
+): GeocodingService => {
+  const cache = createPersistentCache(cacheOptions);
+  const inFlight = new Map<string, Promise<Result<unknown>>>();
+  // Prochain créneau libre pour une requête (file d'attente implicite)
+  let nextSlot = 0;
+
+  const throttled = async <T>(task: () => Promise<T>): Promise<T> => {
+    const now = Date.now();
+    const wait = Math.max(0, nextSlot - now);
+    nextSlot = Math.max(now, nextSlot) + provider.minIntervalMs;
+    if (wait > 0) await sleep(wait);
+    return task();
+  };
+
+  // Cache, puis requête déjà en cours, puis nouvelle requête espacée
+  const cached = <T>(key: string, context: string, task: () => Promise<T>): Promise<Result<T>> => {
+    const hit = cache.get(key);
+    if (hit) return Promise.resolve(ok(hit.value as T));
+
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<Result<T>>;
+
+    const request = throttled(task)
+      .then(value => {
+        cache.set(key, value);
+        return ok(value);
+      })
+      .catch(error => failWith<T>(context, error))
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, request);
+    return request;
+  };
+
+  return {
+    kind: provider.kind,
+
+    async reverse(lat, lon, { zoom = DEFAULT_ZOOM } = {}) {
+      const result = await cached(
+        reverseCacheKey(lat, lon, zoom),
+        'Error reverse geocoding:',
+        () => provider.reverse(lat, lon, zoom)
+      );
+      if (result.ok && !result.data) {
+        return fail<ReverseGeocodeResult>('not_found', `No place at ${lat},${lon}`);
+      }
+      return result;
+    },
+
+    search(query) {
+      const trimmed = query.trim();
+      if (!trimmed) return Promise.resolve(ok([]));
+      return cached(searchCacheKey(trimmed), 'Error searching places:', () => provider.search(trimmed));
+    }
+  };
+};
+
+// Nom de ville d'une adresse (Nominatim n'a pas toujours "city")
+export const cityFromAddress = (address: GeoAddress): string | null =>
+  address.city || address.town || address.village || address.county || null;
+
+// Nom de lieu précis pour une story (commerce, rue, quartier)
+export const placeNameFromAddress = (address: GeoAddress): string | null =>
+  address.amenity || address.shop || address.road || address.neighbourhood || null;
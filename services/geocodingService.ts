@@ -0,0 +1,20 @@
+import { GeocodingService, createGeocodingService, resolveGeocodingProviderKind } from './geocoding';
+import { createNominatimProvider } from './nominatimGeocoder';
+import { createLocalGeocodingProvider } from './localGeocoder';
+
+export type { GeoAddress, ReverseGeocodeResult, PlaceSearchResult } from './geocoding';
+export { cityFromAddress, placeNameFromAddress } from './geocoding';
+
+// Fournisseur choisi via VITE_GEOCODING_PROVIDER (voir services/geocoding.ts)
+export const geocodingService: GeocodingService = createGeocodingService(
+  resolveGeocodingProviderKind() === 'local'
+    ? createLocalGeocodingProvider()
+    : createNominatimProvider({
+        baseUrl: import.meta.env.VITE_GEOCODING_URL || undefined,
+        email: import.meta.env.VITE_GEOCODING_EMAIL || undefined
+      })
+);
+
+if (geocodingService.kind === 'local') {
+  console.info('[SpotLive] Using local geocoding fixtures');
+}
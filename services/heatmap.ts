@@ -0,0 +1,110 @@
+import { Spot } from '../types';
+import { getFreshness } from './trendingService';
+
+// Carte de chaleur de l'activité : un point par story active, pondéré par le
+// vibeScore de son spot et par sa fraîcheur, puis rendu sur un canvas.
+//
+// Rendu en deux passes : chaque point dépose un dégradé radial en niveaux
+// d'opacité (ils s'additionnent), puis l'opacité est convertie en couleur
+// via une palette froid → chaud.
+
+export interface HeatPoint {
+  lat: number;
+  lon: number;
+  // Entre 0 et 1
+  weight: number;
+}
+
+// Rayon d'influence d'une story au sol, et bornes à l'écran
+export const HEAT_RADIUS_M = 150;
+export const HEAT_MIN_RADIUS_PX = 12;
+export const HEAT_MAX_RADIUS_PX = 90;
+
+// Opacité maximale d'un point isolé : il en faut plusieurs pour atteindre le rouge
+const POINT_MAX_ALPHA = 0.6;
+
+const PALETTE_STOPS: [number, string][] = [
+  [0.2, 'rgba(59, 130, 246, 0)'],
+  [0.35, '#3b82f6'],
+  [0.55, '#a855f7'],
+  [0.75, '#f97316'],
+  [1, '#ef4444']
+];
+
+/**
+ * Points de chaleur des spots. La part de vibe d'une story est le vibeScore
+ * du spot divisé par son nombre de stories, multipliée par sa fraîcheur
+ * (1 à la publication, 0 à l'expiration). Les poids sont ramenés entre 0 et 1.
+ */
+export const buildHeatPoints = (spots: Spot[], now: number = Date.now()): HeatPoint[] => {
+  const raw = spots.flatMap(spot => {
+    const share = spot.vibeScore / Math.max(1, spot.activeStories.length);
+    return spot.activeStories.map(story => ({
+      lat: story.latitude,
+      lon: story.longitude,
+      weight: share * getFreshness(story, now)
+    }));
+  });
+
+  const max = Math.max(0, ...raw.map(p => p.weight));
+  if (max <= 0) return [];
+  return raw
+    .map(p => ({ ...p, weight: p.weight / max }))
+    .filter(p => p.weight > 0.01);
+};
+
+// Palette 256 couleurs (RGBA à plat), construite une seule fois
+let palette: Uint8ClampedArray | null = null;
+const getPalette = (): Uint8ClampedArray => {
+  if (palette) return palette;
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  for (const [offset, color] of PALETTE_STOPS) gradient.addColorStop(offset, color);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+  palette = ctx.getImageData(0, 0, 256, 1).data;
+  return palette;
+};
+
+/**
+ * Dessine la chaleur sur ctx (taille width × height en px). Les points sont
+ * déjà projetés à l'écran ; radiusPx dépend du zoom courant.
+ */
+export const renderHeatmap = (
+  ctx: CanvasRenderingContext2D,
+  points: { x: number; y: number; weight: number }[],
+  width: number,
+  height: number,
+  radiusPx: number
+): void => {
+  ctx.clearRect(0, 0, width, height);
+  if (points.length === 0 || width === 0 || height === 0) return;
+
+  // Passe 1 : intensité cumulée dans le canal alpha
+  for (const point of points) {
+    if (point.x < -radiusPx || point.x > width + radiusPx || point.y < -radiusPx || point.y > height + radiusPx) continue;
+    const gradient = ctx.createRadialGradient(point.x, point.y, 0, point.x, point.y, radiusPx);
+    gradient.addColorStop(0, `rgba(0, 0, 0, ${POINT_MAX_ALPHA * point.weight})`);
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(point.x - radiusPx, point.y - radiusPx, radiusPx * 2, radiusPx * 2);
+  }
+
+  // Passe 2 : alpha → couleur de la palette
+  const image = ctx.getImageData(0, 0, width, height);
+  const pixels = image.data;
+  const colors = getPalette();
+  for (let i = 3; i < pixels.length; i += 4) {
+    const alpha = pixels[i];
+    if (alpha === 0) continue;
+    const offset = alpha * 4;
+    pixels[i - 3] = colors[offset];
+    pixels[i - 2] = colors[offset + 1];
+    pixels[i - 1] = colors[offset + 2];
+    pixels[i] = colors[offset + 3];
+  }
+  ctx.putImageData(image, 0, 0);
+};
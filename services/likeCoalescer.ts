@@ -0,0 +1,62 @@
+import { LikeState } from './backend';
+import { Result, ServiceError } from './result';
+
+// Regroupe les taps rapides sur le bouton like : une seule requête en vol par
+// story, et la dernière intention de l'utilisateur gagne. Comme toggle_like
+// reçoit l'état voulu (et non "inverser"), renvoyer une intention est sans risque.
+
+interface LikeCoalescerOptions {
+  sendLike: (storyId: string, liked: boolean) => Promise<Result<LikeState>>;
+  // Appelé une fois la story synchronisée : état serveur, ou état d'avant
+  // les taps (avec l'erreur) si l'écriture a échoué
+  onSettled: (storyId: string, state: LikeState, error?: ServiceError) => void;
+}
+
+interface PendingLike {
+  wanted: boolean;
+  // État confirmé avant le premier tap, pour le rollback
+  rollback: LikeState;
+}
+
+export const createLikeCoalescer = ({ sendLike, onSettled }: LikeCoalescerOptions) => {
+  const pending = new Map<string, PendingLike>();
+
+  const sync = async (storyId: string, liked: boolean) => {
+    const result = await sendLike(storyId, liked);
+    const entry = pending.get(storyId);
+    if (!entry) return;
+
+    if (!result.ok) {
+      pending.delete(storyId);
+      onSettled(storyId, entry.rollback, result.error);
+      return;
+    }
+
+    if (entry.wanted !== result.data.hasLiked) {
+      // L'utilisateur a changé d'avis pendant la requête
+      entry.rollback = result.data;
+      void sync(storyId, entry.wanted);
+      return;
+    }
+
+    pending.delete(storyId);
+    onSettled(storyId, result.data);
+  };
+
+  return {
+    // current : état affiché avant ce tap
+    request(storyId: string, liked: boolean, current: LikeState) {
+      const entry = pending.get(storyId);
+      if (entry) {
+        entry.wanted = liked;
+        return;
+      }
+      pending.set(storyId, { wanted: liked, rollback: current });
+      void sync(storyId, liked);
+    },
+
+    isPending(storyId: string): boolean {
+      return pending.has(storyId);
+    }
+  };
+};
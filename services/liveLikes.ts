@@ -0,0 +1,72 @@
+// Regroupe les notifications de likes reçues en temps réel : au lieu d'une
+// requête par like, les compteurs des stories touchées sont relus en une seule
+// fois (getStoriesLikeCounts) après un court délai.
+
+// Délai de regroupement des notifications de likes
+export const LIKE_BATCH_DELAY_MS = 500;
+// Intervalle de secours quand le socket Realtime est coupé
+export const LIKE_POLL_INTERVAL_MS = 15000;
+
+interface LikeCountBatcherOptions {
+  fetchCounts: (storyIds: string[]) => Promise<Record<string, number>>;
+  onCounts: (counts: Record<string, number>) => void;
+  delayMs?: number;
+}
+
+export const createLikeCountBatcher = ({
+  fetchCounts,
+  onCounts,
+  delayMs = LIKE_BATCH_DELAY_MS
+}: LikeCountBatcherOptions) => {
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let disposed = false;
+
+  const flush = async () => {
+    timer = null;
+    if (pending.size === 0) return;
+
+    const storyIds = [...pending];
+    pending.clear();
+    const counts = await fetchCounts(storyIds);
+    if (!disposed && Object.keys(counts).length > 0) {
+      onCounts(counts);
+    }
+  };
+
+  return {
+    add(storyIds: string[]) {
+      if (disposed) return;
+      storyIds.forEach(id => pending.add(id));
+      if (!timer) {
+        timer = setTimeout(() => {
+          void flush();
+        }, delayMs);
+      }
+    },
+
+    dispose() {
+      disposed = true;
+      pending.clear();
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    }
+  };
+};
+
+// Applique des compteurs à une liste de stories (même référence si rien ne change)
+export const applyLikeCounts = <T extends { id: string; likes: number }>(
+  stories: T[],
+  counts: Record<string, number>
+): T[] => {
+  let changed = false;
+  const next = stories.map(story => {
+    const likes = counts[story.id];
+    if (likes === undefined || likes === story.likes) return story;
+    changed = true;
+    return { ...story, likes };
+  });
+  return changed ? next : stories;
+};
@@ -0,0 +1,779 @@
+import { CheckIn, ImageRendition, ImageRenditionName, ImageRenditions, SpotRecord, Story, User } from '../types';
+import { getCountryName } from './countryService';
+import { boundingBoxAround } from './geoService';
+import {
+  StorageBackend,
+  StoryChange,
+  RealtimeStatus,
+  SupabaseStory,
+  SupabaseSpot,
+  SupabaseCheckIn,
+  SupabaseUser,
+  CheckInChange,
+  CheckInRequest,
+  StoriesPage,
+  StoriesPageOptions,
+  DEFAULT_STORIES_PAGE_SIZE,
+  LikeState,
+  ReportReason,
+  ReportResult,
+  CountryCount,
+  ImageKind,
+  mediaStoragePath,
+  DEFAULT_REPORT_REASONS,
+  AUTO_HIDE_REPORTS_THRESHOLD,
+  storyToSupabase,
+  supabaseToStory,
+  supabaseToSpotRecord,
+  spotRecordToSupabase,
+  supabaseToCheckIn
+} from './backend';
+import { SpotInput, createSpotRecord, findMatchingSpot, withSpotAlias } from './spots';
+import { CHECK_IN_LIFETIME_MS, isCloseEnoughToCheckIn } from './checkIns';
+import { Result, ok, fail, failWith } from './result';
+
+// Backend local (IndexedDB) : mêmes tables et mêmes règles que le schéma
+// Supabase (supabase-setup.sql + supabase-moderation.sql), pour faire tourner
+// l'app hors ligne et écrire des tests déterministes sur la même API.
+
+// v2 : spots persistants (store spots, stories.spot_id)
+// v3 : check-ins
+const DB_VERSION = 3;
+const DEFAULT_DB_NAME = 'spotlive-local';
+
+// Préfixe des URLs de médias stockés dans IndexedDB (résolues en blob: à la lecture)
+export const LOCAL_MEDIA_SCHEME = 'local-media://';
+
+interface StoryLikeRow {
+  id: string;
+  story_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+interface StoryReportRow {
+  id: string;
+  story_id: string;
+  user_id: string;
+  reason: string;
+  details: string | null;
+  created_at: string;
+}
+
+interface MediaRow {
+  path: string;
+  blob: Blob;
+}
+
+export interface LocalBackendOptions {
+  dbName?: string;
+  // Horloge et générateur d'ids injectables (tests déterministes)
+  now?: () => number;
+  generateId?: () => string;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Même logique que resolve_spot() : spot du même nom à proximité (nouvelle
+// graphie gardée en alias), sinon nouveau spot. rows est mis à jour sur place.
+const resolveSpotRow = (
+  rows: SupabaseSpot[],
+  input: SpotInput,
+  newId: () => string,
+  createdAt: string
+): { row: SupabaseSpot; changed: boolean } => {
+  const match = findMatchingSpot(rows.map(supabaseToSpotRecord), input);
+  if (!match) {
+    const row = spotRecordToSupabase(createSpotRecord(newId(), input), createdAt);
+    rows.push(row);
+    return { row, changed: true };
+  }
+
+  const index = rows.findIndex(row => row.id === match.id);
+  const renamed = withSpotAlias(match, input.name);
+  if (!renamed) return { row: rows[index], changed: false };
+  rows[index] = spotRecordToSupabase(renamed, rows[index].created_at);
+  return { row: rows[index], changed: true };
+};
+
+const spotInputOf = (row: SupabaseStory): SpotInput => ({
+  name: row.location_name,
+  latitude: row.latitude,
+  longitude: row.longitude,
+  countryCode: row.country_code
+});
+
+const openDatabase = (dbName: string, generateId: () => string, now: () => number): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+
+      if (event.oldVersion < 1) {
+        const stories = db.createObjectStore('stories', { keyPath: 'id' });
+        stories.createIndex('user_id', 'user_id');
+        stories.createIndex('country_code', 'country_code');
+
+        const likes = db.createObjectStore('story_likes', { keyPath: 'id' });
+        likes.createIndex('story_id', 'story_id');
+        likes.createIndex('user_id', 'user_id');
+        // Contrainte d'unicité : un user ne peut liker qu'une fois une story
+        likes.createIndex('story_user', ['story_id', 'user_id'], { unique: true });
+
+        const reports = db.createObjectStore('story_reports', { keyPath: 'id' });
+        reports.createIndex('story_id', 'story_id');
+        reports.createIndex('story_user', ['story_id', 'user_id'], { unique: true });
+
+        db.createObjectStore('users', { keyPath: 'id' });
+        db.createObjectStore('media', { keyPath: 'path' });
+      }
+
+      if (event.oldVersion < 2) {
+        const spotsStore = db.createObjectStore('spots', { keyPath: 'id' });
+        const storiesStore = request.transaction!.objectStore('stories');
+
+        // Stories existantes rattachées à leur spot, comme l'UPDATE de supabase-setup.sql
+        storiesStore.getAll().onsuccess = (e) => {
+          const rows = (e.target as IDBRequest<SupabaseStory[]>).result;
+          const spotRows: SupabaseSpot[] = [];
+          const createdAt = new Date(now()).toISOString();
+          for (const row of rows) {
+            if (row.spot_id) continue;
+            storiesStore.put({ ...row, spot_id: resolveSpotRow(spotRows, spotInputOf(row), generateId, createdAt).row.id });
+          }
+          spotRows.forEach(spot => spotsStore.put(spot));
+        };
+      }
+
+      if (event.oldVersion < 3) {
+        const checkIns = db.createObjectStore('check_ins', { keyPath: 'id' });
+        checkIns.createIndex('user_id', 'user_id');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createLocalBackend = (options: LocalBackendOptions = {}): StorageBackend => {
+  const dbName = options.dbName || DEFAULT_DB_NAME;
+  const now = options.now || (() => Date.now());
+  const generateId = options.generateId || (() => crypto.randomUUID());
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName, generateId, now);
+    }
+    return dbPromise;
+  };
+
+  const listeners = new Set<(change: StoryChange) => void>();
+  const emit = (change: StoryChange) => {
+    listeners.forEach(listener => listener(change));
+  };
+
+  const checkInListeners = new Set<(change: CheckInChange) => void>();
+  const emitCheckIn = (change: CheckInChange) => {
+    checkInListeners.forEach(listener => listener(change));
+  };
+
+  const likeListeners = new Set<(storyId: string) => void>();
+  const emitLike = (storyId: string) => {
+    likeListeners.forEach(listener => listener(storyId));
+  };
+
+  // Cache des object URLs pour les médias locaux (un blob: par chemin)
+  const mediaUrls = new Map<string, string>();
+
+  const resolveMediaUrl = async (url: string | undefined): Promise<string | undefined> => {
+    if (!url || !url.startsWith(LOCAL_MEDIA_SCHEME)) return url;
+
+    const path = url.slice(LOCAL_MEDIA_SCHEME.length);
+    const cached = mediaUrls.get(path);
+    if (cached) return cached;
+
+    const db = await getDb();
+    const row = await requestToPromise<MediaRow | undefined>(
+      db.transaction('media').objectStore('media').get(path)
+    );
+    if (!row) return url;
+
+    const objectUrl = URL.createObjectURL(row.blob);
+    mediaUrls.set(path, objectUrl);
+    return objectUrl;
+  };
+
+  // Tailles de la photo (miniature, feed) stockées elles aussi en local-media://
+  const resolveRenditions = async (renditions: ImageRenditions | undefined): Promise<ImageRenditions | undefined> => {
+    if (!renditions) return renditions;
+    const resolved: ImageRenditions = {};
+    for (const [name, rendition] of Object.entries(renditions) as Array<[ImageRenditionName, ImageRendition | undefined]>) {
+      if (!rendition) continue;
+      resolved[name] = { ...rendition, url: (await resolveMediaUrl(rendition.url)) || rendition.url };
+    }
+    return resolved;
+  };
+
+  const rowToStory = async (row: SupabaseStory): Promise<Story> => {
+    const story = supabaseToStory(row);
+    return {
+      ...story,
+      imageUrl: (await resolveMediaUrl(story.imageUrl)) || story.imageUrl,
+      imageRenditions: await resolveRenditions(story.imageRenditions),
+      videoUrl: await resolveMediaUrl(story.videoUrl)
+    };
+  };
+
+  // Les abonnés reçoivent des lignes aux URLs de médias déjà résolues (blob:)
+  const emitRow = async (eventType: 'INSERT' | 'UPDATE', row: SupabaseStory) => {
+    const story = await rowToStory(row);
+    emit({
+      eventType,
+      new: {
+        ...row,
+        image_url: story.imageUrl,
+        image_renditions: story.imageRenditions ?? row.image_renditions,
+        video_url: story.videoUrl
+      },
+      old: { id: row.id }
+    });
+  };
+
+  const isActive = (row: SupabaseStory) => new Date(row.expires_at).getTime() > now();
+
+  // Ordre du feed : created_at puis id, décroissants
+  const compareNewestFirst = (a: SupabaseStory, b: SupabaseStory) =>
+    b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id);
+
+  const stories = {
+    async getActiveStories(countryCode?: string | null): Promise<Result<Story[]>> {
+      try {
+        const db = await getDb();
+        const rows = await requestToPromise<SupabaseStory[]>(
+          db.transaction('stories').objectStore('stories').getAll()
+        );
+
+        const visible = rows
+          .filter(row => isActive(row) && !row.is_hidden)
+          .filter(row => !countryCode || countryCode === 'ALL' || row.country_code === countryCode)
+          .sort(compareNewestFirst);
+
+        return ok(await Promise.all(visible.map(rowToStory)));
+      } catch (error) {
+        return failWith('Error fetching stories:', error);
+      }
+    },
+
+    async getActiveStoriesPage({
+      countryCode,
+      near,
+      cursor,
+      limit = DEFAULT_STORIES_PAGE_SIZE
+    }: StoriesPageOptions): Promise<Result<StoriesPage>> {
+      try {
+        const db = await getDb();
+        const rows = await requestToPromise<SupabaseStory[]>(
+          db.transaction('stories').objectStore('stories').getAll()
+        );
+        const box = near ? boundingBoxAround(near.latitude, near.longitude, near.radiusKm) : null;
+
+        const page = rows
+          .filter(row => isActive(row) && !row.is_hidden)
+          .filter(row => !countryCode || countryCode === 'ALL' || row.country_code === countryCode)
+          .filter(row => !box || (
+            row.latitude >= box.minLat && row.latitude <= box.maxLat &&
+            row.longitude >= box.minLon && row.longitude <= box.maxLon
+          ))
+          .filter(row => !cursor || row.created_at < cursor.createdAt ||
+            (row.created_at === cursor.createdAt && row.id < cursor.id))
+          .sort(compareNewestFirst)
+          .slice(0, limit);
+
+        const last = page[page.length - 1];
+        return ok({
+          stories: await Promise.all(page.map(rowToStory)),
+          nextCursor: page.length === limit && last ? { createdAt: last.created_at, id: last.id } : null
+        });
+      } catch (error) {
+        return failWith('Error fetching stories page:', error);
+      }
+    },
+
+    async getStory(storyId: string): Promise<Result<Story>> {
+      try {
+        const db = await getDb();
+        const row = await requestToPromise<SupabaseStory | undefined>(
+          db.transaction('stories').objectStore('stories').get(storyId)
+        );
+        if (!row || !isActive(row) || row.is_hidden) {
+          return fail('not_found', 'Story not found or expired');
+        }
+        return ok(await rowToStory(row));
+      } catch (error) {
+        return failWith('Error fetching story:', error);
+      }
+    },
+
+    async getAvailableCountries(): Promise<Result<CountryCount[]>> {
+      try {
+        const db = await getDb();
+        const rows = await requestToPromise<SupabaseStory[]>(
+          db.transaction('stories').objectStore('stories').getAll()
+        );
+
+        const countryCounts: Record<string, number> = {};
+        rows.filter(isActive).forEach(row => {
+          if (row.country_code) {
+            countryCounts[row.country_code] = (countryCounts[row.country_code] || 0) + 1;
+          }
+        });
+
+        return ok(Object.entries(countryCounts)
+          .map(([code, count]) => ({ code, name: getCountryName(code), count }))
+          .sort((a, b) => b.count - a.count));
+      } catch (error) {
+        return failWith('Error fetching countries:', error);
+      }
+    },
+
+    async createStory(story: Story): Promise<Result<Story>> {
+      try {
+        const db = await getDb();
+        const row: SupabaseStory = { ...storyToSupabase(story), reports_count: 0, is_hidden: false };
+        const tx = db.transaction(['stories', 'spots'], 'readwrite');
+
+        // Trigger assign_story_spot : spot_id rempli s'il manque
+        if (!row.spot_id) {
+          const spotsStore = tx.objectStore('spots');
+          const spotRows = await requestToPromise<SupabaseSpot[]>(spotsStore.getAll());
+          const resolved = resolveSpotRow(spotRows, spotInputOf(row), generateId, new Date(now()).toISOString());
+          if (resolved.changed) spotsStore.put(resolved.row);
+          row.spot_id = resolved.row.id;
+        }
+
+        // add() échoue sur un id existant, comme l'INSERT côté Postgres
+        tx.objectStore('stories').add(row);
+        await transactionDone(tx);
+
+        await emitRow('INSERT', row);
+        return ok(await rowToStory(row));
+      } catch (error) {
+        return failWith('Error creating story:', error);
+      }
+    },
+
+    async deleteStory(storyId: string, userId: string): Promise<Result<void>> {
+      try {
+        const db = await getDb();
+        const tx = db.transaction(['stories', 'story_likes', 'story_reports'], 'readwrite');
+        const storiesStore = tx.objectStore('stories');
+        const row = await requestToPromise<SupabaseStory | undefined>(storiesStore.get(storyId));
+
+        // Comme le backend Supabase : not_found si la story n'existe plus,
+        // permission_denied si elle appartient à un autre utilisateur
+        if (!row) {
+          tx.abort();
+          return fail('not_found', 'Story not found');
+        }
+        if (row.user_id !== userId) {
+          tx.abort();
+          return fail('permission_denied', 'Story not owned by user');
+        }
+
+        storiesStore.delete(storyId);
+        // ON DELETE CASCADE
+        for (const storeName of ['story_likes', 'story_reports']) {
+          const store = tx.objectStore(storeName);
+          const keys = await requestToPromise(store.index('story_id').getAllKeys(storyId));
+          keys.forEach(key => store.delete(key));
+        }
+        await transactionDone(tx);
+
+        emit({ eventType: 'DELETE', new: {}, old: { id: storyId } });
+        return ok(undefined);
+      } catch (error) {
+        return failWith('Error deleting story:', error);
+      }
+    },
+
+    async toggleLike(storyId: string, userId: string, liked?: boolean): Promise<Result<LikeState>> {
+      try {
+        const db = await getDb();
+        // Une seule transaction : le like et le compteur changent ensemble
+        const tx = db.transaction(['stories', 'story_likes'], 'readwrite');
+        const storiesStore = tx.objectStore('stories');
+        const likesStore = tx.objectStore('story_likes');
+
+        const row = await requestToPromise<SupabaseStory | undefined>(storiesStore.get(storyId));
+        if (!row) {
+          tx.abort();
+          return fail('not_found', 'Story not found');
+        }
+
+        const existingLike = await requestToPromise<StoryLikeRow | undefined>(
+          likesStore.index('story_user').get([storyId, userId])
+        );
+
+        // Même règle que toggle_like : état voulu, ou inversion si non précisé
+        const hasLiked = liked ?? !existingLike;
+        if (hasLiked === !!existingLike) {
+          // Déjà dans l'état voulu : rien à écrire
+          tx.abort();
+          return ok({ likes: row.likes || 0, hasLiked });
+        }
+
+        if (existingLike) {
+          likesStore.delete(existingLike.id);
+          row.likes = Math.max(0, (row.likes || 0) - 1);
+        } else {
+          const like: StoryLikeRow = {
+            id: generateId(),
+            story_id: storyId,
+            user_id: userId,
+            created_at: new Date(now()).toISOString()
+          };
+          likesStore.add(like);
+          row.likes = (row.likes || 0) + 1;
+        }
+        storiesStore.put(row);
+        await transactionDone(tx);
+
+        emitLike(storyId);
+        await emitRow('UPDATE', row);
+        return ok({ likes: row.likes, hasLiked });
+      } catch (error) {
+        return failWith('Error toggling like:', error);
+      }
+    },
+
+    async getUserLikes(userId: string): Promise<Result<Set<string>>> {
+      try {
+        const db = await getDb();
+        const likes = await requestToPromise<StoryLikeRow[]>(
+          db.transaction('story_likes').objectStore('story_likes').index('user_id').getAll(userId)
+        );
+        return ok(new Set(likes.map(like => like.story_id)));
+      } catch (error) {
+        return failWith('Error fetching user likes:', error);
+      }
+    },
+
+    async getStoriesLikeCounts(storyIds: string[]): Promise<Result<Record<string, number>>> {
+      if (storyIds.length === 0) return ok({});
+
+      try {
+        const db = await getDb();
+        const store = db.transaction('stories').objectStore('stories');
+        const rows = await Promise.all(
+          storyIds.map(id => requestToPromise<SupabaseStory | undefined>(store.get(id)))
+        );
+
+        return ok(rows.reduce<Record<string, number>>((acc, row) => {
+          if (row) acc[row.id] = row.likes || 0;
+          return acc;
+        }, {}));
+      } catch (error) {
+        return failWith('Error fetching stories like counts:', error);
+      }
+    },
+  };
+
+  const spots = {
+    async getSpots(spotIds: string[]): Promise<Result<SpotRecord[]>> {
+      if (spotIds.length === 0) return ok([]);
+
+      try {
+        const db = await getDb();
+        const store = db.transaction('spots').objectStore('spots');
+        const rows = await Promise.all(
+          spotIds.map(id => requestToPromise<SupabaseSpot | undefined>(store.get(id)))
+        );
+        return ok(rows.filter((row): row is SupabaseSpot => !!row).map(supabaseToSpotRecord));
+      } catch (error) {
+        return failWith('Error fetching spots:', error);
+      }
+    },
+  };
+
+  const checkIns = {
+    async getActiveCheckIns(countryCode?: string | null): Promise<Result<CheckIn[]>> {
+      try {
+        const db = await getDb();
+        const rows = await requestToPromise<SupabaseCheckIn[]>(
+          db.transaction('check_ins').objectStore('check_ins').getAll()
+        );
+
+        return ok(rows
+          .filter(row => new Date(row.expires_at).getTime() > now())
+          .filter(row => !countryCode || countryCode === 'ALL' || row.country_code === countryCode)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(supabaseToCheckIn));
+      } catch (error) {
+        return failWith('Error fetching check-ins:', error);
+      }
+    },
+
+    // Même logique que la fonction RPC check_in()
+    async checkIn(request: CheckInRequest): Promise<Result<CheckIn>> {
+      try {
+        const db = await getDb();
+        const tx = db.transaction(['check_ins', 'spots'], 'readwrite');
+        const spotsStore = tx.objectStore('spots');
+        const checkInsStore = tx.objectStore('check_ins');
+        const createdAt = new Date(now()).toISOString();
+
+        let spot = request.spotId
+          ? await requestToPromise<SupabaseSpot | undefined>(spotsStore.get(request.spotId))
+          : undefined;
+        // Spot inconnu : résolu par nom et position du spot, comme une story
+        let resolvedChanged = false;
+        if (!spot) {
+          const spotRows = await requestToPromise<SupabaseSpot[]>(spotsStore.getAll());
+          const resolved = resolveSpotRow(spotRows, {
+            name: request.locationName,
+            latitude: request.spotLatitude,
+            longitude: request.spotLongitude,
+            countryCode: request.countryCode
+          }, generateId, createdAt);
+          spot = resolved.row;
+          resolvedChanged = resolved.changed;
+        }
+        if (!isCloseEnoughToCheckIn(spot, request.latitude, request.longitude)) {
+          tx.abort();
+          return fail('validation', 'Too far from this spot to check in');
+        }
+        if (resolvedChanged) spotsStore.put(spot);
+        const spotId = spot.id;
+
+        // Un seul check-in actif par utilisateur
+        const replacedIds = await requestToPromise(checkInsStore.index('user_id').getAllKeys(request.userId));
+        replacedIds.forEach(id => checkInsStore.delete(id));
+
+        const row: SupabaseCheckIn = {
+          id: generateId(),
+          user_id: request.userId,
+          spot_id: spotId,
+          location_name: request.locationName.trim(),
+          latitude: request.latitude,
+          longitude: request.longitude,
+          country_code: request.countryCode,
+          created_at: createdAt,
+          expires_at: new Date(now() + CHECK_IN_LIFETIME_MS).toISOString()
+        };
+        checkInsStore.add(row);
+        await transactionDone(tx);
+
+        replacedIds.forEach(id => emitCheckIn({ eventType: 'DELETE', new: {}, old: { id: String(id) } }));
+        emitCheckIn({ eventType: 'INSERT', new: row, old: {} });
+        return ok(supabaseToCheckIn(row));
+      } catch (error) {
+        return failWith('Error checking in:', error);
+      }
+    },
+  };
+
+  const users = {
+    async createAnonymousUser(username: string, avatarUrl: string): Promise<Result<string>> {
+      try {
+        const db = await getDb();
+        const row: SupabaseUser = {
+          id: generateId(),
+          username,
+          avatar_url: avatarUrl,
+          created_at: new Date(now()).toISOString()
+        };
+        const tx = db.transaction('users', 'readwrite');
+        tx.objectStore('users').add(row);
+        await transactionDone(tx);
+        return ok(row.id);
+      } catch (error) {
+        return failWith('Error creating user:', error);
+      }
+    },
+
+    async getUser(userId: string): Promise<Result<User>> {
+      try {
+        const db = await getDb();
+        const row = await requestToPromise<SupabaseUser | undefined>(
+          db.transaction('users').objectStore('users').get(userId)
+        );
+        if (!row) return fail('not_found', 'User not found');
+
+        return ok({
+          id: row.id,
+          username: row.username,
+          avatarUrl: row.avatar_url,
+          isGuest: false,
+        });
+      } catch (error) {
+        return failWith('Error fetching user:', error);
+      }
+    },
+  };
+
+  const moderation = {
+    // Même logique que la fonction RPC report_story()
+    async reportStory(
+      storyId: string,
+      userId: string,
+      reason: ReportReason,
+      details?: string
+    ): Promise<Result<ReportResult>> {
+      try {
+        const db = await getDb();
+        const tx = db.transaction(['stories', 'story_reports'], 'readwrite');
+        const storiesStore = tx.objectStore('stories');
+        const reportsStore = tx.objectStore('story_reports');
+
+        const existing = await requestToPromise(reportsStore.index('story_user').getKey([storyId, userId]));
+        if (existing !== undefined) {
+          tx.abort();
+          return fail('validation', 'Vous avez déjà signalé cette story');
+        }
+
+        const row = await requestToPromise<SupabaseStory | undefined>(storiesStore.get(storyId));
+        if (!row || !isActive(row)) {
+          tx.abort();
+          return fail('not_found', 'Cette story n\'existe plus ou a expiré');
+        }
+
+        const report: StoryReportRow = {
+          id: generateId(),
+          story_id: storyId,
+          user_id: userId,
+          reason,
+          details: details || null,
+          created_at: new Date(now()).toISOString()
+        };
+        reportsStore.add(report);
+
+        row.reports_count = (row.reports_count || 0) + 1;
+        if (row.reports_count >= AUTO_HIDE_REPORTS_THRESHOLD) {
+          row.is_hidden = true;
+        }
+        storiesStore.put(row);
+        await transactionDone(tx);
+
+        await emitRow('UPDATE', row);
+
+        const reportsCount = row.reports_count;
+        return ok({
+          message: row.is_hidden
+            ? 'Story masquée automatiquement'
+            : reportsCount >= 2
+              ? `Encore ${AUTO_HIDE_REPORTS_THRESHOLD - reportsCount} signalement(s) avant masquage`
+              : 'Signalement enregistré',
+          reportsCount,
+          isHidden: !!row.is_hidden
+        });
+      } catch (error) {
+        return failWith('Error reporting story:', error);
+      }
+    },
+
+    async getReportReasons(): Promise<Result<Array<{ value: ReportReason; label: string }>>> {
+      return ok(DEFAULT_REPORT_REASONS);
+    }
+  };
+
+  // Stocke le blob dans IndexedDB et renvoie une URL local-media://
+  const storeMedia = async (blob: Blob, filePath: string): Promise<Result<string>> => {
+    const db = await getDb();
+    const tx = db.transaction('media', 'readwrite');
+    tx.objectStore('media').put({ path: filePath, blob } as MediaRow);
+    await transactionDone(tx);
+
+    // Un fichier réécrit (upsert) doit être relu
+    const cached = mediaUrls.get(filePath);
+    if (cached) {
+      URL.revokeObjectURL(cached);
+      mediaUrls.delete(filePath);
+    }
+    return ok(`${LOCAL_MEDIA_SCHEME}${filePath}`);
+  };
+
+  const media = {
+    async uploadVideo(blob: Blob, storyId: string): Promise<Result<string>> {
+      try {
+        if (!blob || blob.size === 0) {
+          console.error('Invalid blob: empty or null');
+          return fail('validation', 'Video is empty');
+        }
+
+        return await storeMedia(blob, mediaStoragePath('video', storyId, blob.type || 'video/mp4'));
+      } catch (error) {
+        return failWith('Error uploading video:', error);
+      }
+    },
+
+    async uploadImage(blob: Blob, storyId: string, kind: ImageKind, rendition?: ImageRenditionName): Promise<Result<string>> {
+      try {
+        if (!blob || blob.size === 0) {
+          console.error('Invalid blob: empty or null');
+          return fail('validation', 'Image is empty');
+        }
+
+        return await storeMedia(blob, mediaStoragePath(kind, storyId, blob.type || 'image/jpeg', rendition));
+      } catch (error) {
+        return failWith('Error uploading image:', error);
+      }
+    },
+  };
+
+  const realtime = {
+    subscribeToStories(onChange: (change: StoryChange) => void): () => void {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+
+    subscribeToCheckIns(onChange: (change: CheckInChange) => void): () => void {
+      checkInListeners.add(onChange);
+      return () => {
+        checkInListeners.delete(onChange);
+      };
+    },
+
+    subscribeToStoryLikes(
+      storyIds: string[],
+      onLikeChange: (storyId: string | null) => void,
+      onStatusChange?: (status: RealtimeStatus) => void
+    ): () => void {
+      const watched = new Set(storyIds);
+      const listener = (storyId: string) => {
+        if (watched.has(storyId)) onLikeChange(storyId);
+      };
+      likeListeners.add(listener);
+      // Pas de socket en local : toujours connecté
+      onStatusChange?.('connected');
+      return () => {
+        likeListeners.delete(listener);
+      };
+    },
+  };
+
+  return {
+    kind: 'local',
+    stories,
+    spots,
+    checkIns,
+    users,
+    moderation,
+    media,
+    realtime
+  };
+};
@@ -0,0 +1,79 @@
+import { GeoAddress, GeocodingProvider, PlaceSearchResult, ReverseGeocodeResult } from './geocoding';
+import { haversineDistanceKm } from './geoService';
+
+// Fournisseur local : un jeu de lieux fixes, sans réseau. Réponses
+// déterministes pour le développement hors ligne (avec le backend local) et
+// les tests ; les fixtures peuvent être remplacées à la création.
+
+export interface GeocodingFixture {
+  lat: number;
+  lon: number;
+  displayName: string;
+  address: GeoAddress;
+}
+
+// Au-delà, aucun lieu connu : reverse renvoie null
+const MAX_FIXTURE_DISTANCE_KM = 50;
+
+export const GEOCODING_FIXTURES: GeocodingFixture[] = [
+  {
+    lat: 9.515, lon: -13.710,
+    displayName: 'Kaloum, Conakry, Guinée',
+    address: { neighbourhood: 'Kaloum', city: 'Conakry', country: 'Guinée', countryCode: 'GN' }
+  },
+  {
+    lat: 9.545, lon: -13.690,
+    displayName: 'Dixinn, Conakry, Guinée',
+    address: { neighbourhood: 'Dixinn', city: 'Conakry', country: 'Guinée', countryCode: 'GN' }
+  },
+  {
+    lat: 9.605, lon: -13.650,
+    displayName: 'Ratoma, Conakry, Guinée',
+    address: { neighbourhood: 'Ratoma', city: 'Conakry', country: 'Guinée', countryCode: 'GN' }
+  },
+  {
+    lat: 14.693, lon: -17.447,
+    displayName: 'Plateau, Dakar, Sénégal',
+    address: { neighbourhood: 'Plateau', city: 'Dakar', country: 'Sénégal', countryCode: 'SN' }
+  },
+  {
+    lat: 5.320, lon: -4.016,
+    displayName: 'Le Plateau, Abidjan, Côte d\'Ivoire',
+    address: { neighbourhood: 'Le Plateau', city: 'Abidjan', country: 'Côte d\'Ivoire', countryCode: 'CI' }
+  },
+  {
+    lat: 48.857, lon: 2.352,
+    displayName: 'Hôtel de Ville, Paris, France',
+    address: { amenity: 'Hôtel de Ville', neighbourhood: 'Le Marais', city: 'Paris', country: 'France', countryCode: 'FR' }
+  }
+];
+
+export const createLocalGeocodingProvider = (fixtures: GeocodingFixture[] = GEOCODING_FIXTURES): GeocodingProvider => ({
+  kind: 'local',
+  minIntervalMs: 0,
+
+  async reverse(lat, lon): Promise<ReverseGeocodeResult | null> {
+    let nearest: GeocodingFixture | null = null;
+    let nearestKm = MAX_FIXTURE_DISTANCE_KM;
+    for (const fixture of fixtures) {
+      const distanceKm = haversineDistanceKm(lat, lon, fixture.lat, fixture.lon);
+      if (distanceKm <= nearestKm) {
+        nearest = fixture;
+        nearestKm = distanceKm;
+      }
+    }
+    return nearest ? { displayName: nearest.displayName, address: { ...nearest.address } } : null;
+  },
+
+  async search(query): Promise<PlaceSearchResult[]> {
+    const needle = query.toLowerCase();
+    return fixtures
+      .filter(fixture => fixture.displayName.toLowerCase().includes(needle))
+      .map(fixture => ({
+        name: fixture.displayName.split(',')[0],
+        displayName: fixture.displayName,
+        lat: fixture.lat,
+        lon: fixture.lon
+      }));
+  }
+});
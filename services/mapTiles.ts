@@ -0,0 +1,176 @@
+// Carte : projection Web Mercator (EPSG:3857) et tuiles raster XYZ.
+//
+// Les coordonnées "monde" sont en pixels au zoom 0 : le monde entier tient dans
+// un carré de TILE_SIZE px, et chaque niveau de zoom double cette taille.
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 19;
+
+// Au-delà, la projection part à l'infini (limite standard des cartes web)
+const MAX_LATITUDE = 85.05112878;
+
+// Serveur de tuiles : VITE_MAP_TILE_URL ({z}/{x}/{y}, {s} optionnel), par ex.
+// /tiles/{z}/{x}/{y}.png pour un dossier public/tiles en développement hors ligne
+export const DEFAULT_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const DEFAULT_ATTRIBUTION = '© OpenStreetMap contributors';
+const SUBDOMAINS = ['a', 'b', 'c'];
+
+export interface TileConfig {
+  url: string;
+  attribution: string;
+  // Tuiles déjà sombres : pas besoin de les inverser pour le thème de l'app
+  dark: boolean;
+}
+
+export const getTileConfig = (env: ImportMetaEnv = import.meta.env): TileConfig => ({
+  url: env.VITE_MAP_TILE_URL || DEFAULT_TILE_URL,
+  attribution: env.VITE_MAP_TILE_ATTRIBUTION ?? DEFAULT_ATTRIBUTION,
+  dark: env.VITE_MAP_TILES_DARK === 'true'
+});
+
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+// Taille au sol d'un pixel (mètres) à une latitude et un zoom donnés
+const EARTH_CIRCUMFERENCE_M = 40075016.686;
+export const metersPerPixel = (lat: number, zoom: number): number =>
+  (EARTH_CIRCUMFERENCE_M * Math.cos((lat * Math.PI) / 180)) / (TILE_SIZE * 2 ** zoom);
+
+export const clampZoom = (zoom: number): number => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const project = (lat: number, lon: number): WorldPoint => {
+  const clampedLat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin((clampedLat * Math.PI) / 180);
+  return {
+    x: ((lon + 180) / 360) * TILE_SIZE,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * TILE_SIZE
+  };
+};
+
+export const unproject = (point: WorldPoint): LatLon => {
+  const n = Math.PI - (2 * Math.PI * point.y) / TILE_SIZE;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lon: (point.x / TILE_SIZE) * 360 - 180
+  };
+};
+
+// Camera : centre (coordonnées monde) et zoom fractionnaire
+export interface Camera {
+  center: WorldPoint;
+  zoom: number;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+// Position à l'écran (px depuis le coin haut-gauche du conteneur)
+export const worldToScreen = (point: WorldPoint, camera: Camera, viewport: Viewport): WorldPoint => {
+  const scale = 2 ** camera.zoom;
+  return {
+    x: (point.x - camera.center.x) * scale + viewport.width / 2,
+    y: (point.y - camera.center.y) * scale + viewport.height / 2
+  };
+};
+
+export const screenToWorld = (point: WorldPoint, camera: Camera, viewport: Viewport): WorldPoint => {
+  const scale = 2 ** camera.zoom;
+  return {
+    x: camera.center.x + (point.x - viewport.width / 2) / scale,
+    y: camera.center.y + (point.y - viewport.height / 2) / scale
+  };
+};
+
+// Zoom en gardant fixe le point de l'écran sous le doigt / la souris
+export const zoomAround = (camera: Camera, zoom: number, anchor: WorldPoint, viewport: Viewport): Camera => {
+  const nextZoom = clampZoom(zoom);
+  const world = screenToWorld(anchor, camera, viewport);
+  const scale = 2 ** nextZoom;
+  return {
+    zoom: nextZoom,
+    center: {
+      x: world.x - (anchor.x - viewport.width / 2) / scale,
+      y: world.y - (anchor.y - viewport.height / 2) / scale
+    }
+  };
+};
+
+// Caméra qui montre tous les points, avec une marge en px autour
+export const fitPoints = (points: LatLon[], viewport: Viewport, paddingPx = 48, maxZoom = 16): Camera => {
+  const world = points.map(p => project(p.lat, p.lon));
+  const minX = Math.min(...world.map(p => p.x));
+  const maxX = Math.max(...world.map(p => p.x));
+  const minY = Math.min(...world.map(p => p.y));
+  const maxY = Math.max(...world.map(p => p.y));
+
+  const usableWidth = Math.max(1, viewport.width - paddingPx * 2);
+  const usableHeight = Math.max(1, viewport.height - paddingPx * 2);
+  const zoomX = maxX > minX ? Math.log2(usableWidth / (maxX - minX)) : maxZoom;
+  const zoomY = maxY > minY ? Math.log2(usableHeight / (maxY - minY)) : maxZoom;
+
+  return {
+    center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 },
+    zoom: clampZoom(Math.min(maxZoom, zoomX, zoomY))
+  };
+};
+
+export interface Tile {
+  key: string;
+  url: string;
+  // Coin haut-gauche et taille à l'écran
+  left: number;
+  top: number;
+  size: number;
+}
+
+export const tileUrl = (template: string, x: number, y: number, z: number): string =>
+  template
+    .replace('{s}', SUBDOMAINS[(x + y) % SUBDOMAINS.length])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+
+/**
+ * Tuiles couvrant le viewport. Elles viennent du niveau entier le plus proche
+ * et sont étirées entre deux niveaux ; en longitude, le monde se répète.
+ */
+export const visibleTiles = (camera: Camera, viewport: Viewport, template: string): Tile[] => {
+  const tileZoom = Math.round(camera.zoom);
+  const tilesPerSide = 2 ** tileZoom;
+  const size = TILE_SIZE * 2 ** (camera.zoom - tileZoom);
+
+  const topLeft = screenToWorld({ x: 0, y: 0 }, camera, viewport);
+  const bottomRight = screenToWorld({ x: viewport.width, y: viewport.height }, camera, viewport);
+  const worldToTile = tilesPerSide / TILE_SIZE;
+
+  const minX = Math.floor(topLeft.x * worldToTile);
+  const maxX = Math.floor(bottomRight.x * worldToTile);
+  const minY = Math.max(0, Math.floor(topLeft.y * worldToTile));
+  const maxY = Math.min(tilesPerSide - 1, Math.floor(bottomRight.y * worldToTile));
+
+  const origin = worldToScreen({ x: 0, y: 0 }, camera, viewport);
+  const tiles: Tile[] = [];
+  for (let ty = minY; ty <= maxY; ty++) {
+    for (let tx = minX; tx <= maxX; tx++) {
+      const wrappedX = ((tx % tilesPerSide) + tilesPerSide) % tilesPerSide;
+      tiles.push({
+        key: `${tileZoom}/${tx}/${ty}`,
+        url: tileUrl(template, wrappedX, ty, tileZoom),
+        left: origin.x + tx * size,
+        top: origin.y + ty * size,
+        size
+      });
+    }
+  }
+  return tiles;
+};
@@ -0,0 +1,217 @@
+import { ImageRenditionName } from '../types';
+
+// Traitement des photos à la capture : trois tailles (miniature, feed, pleine
+// taille), chacune redimensionnée puis compressée sous un budget d'octets.
+// Le travail tourne dans un Web Worker avec OffscreenCanvas quand le navigateur
+// le permet (voir mediaProcessing.worker.ts), sinon sur le thread principal.
+
+interface RenditionSpec {
+  // Plus grand côté, en pixels
+  maxSide: number;
+  // Budget visé sur une bonne connexion (réduit sur réseau lent)
+  maxBytes: number;
+}
+
+export const RENDITION_SPECS: Record<ImageRenditionName, RenditionSpec> = {
+  thumb: { maxSide: 320, maxBytes: 25 * 1024 },
+  feed: { maxSide: 1080, maxBytes: 180 * 1024 },
+  full: { maxSide: 1920, maxBytes: 500 * 1024 }
+};
+
+const RENDITION_NAMES: ImageRenditionName[] = ['full', 'feed', 'thumb'];
+
+// Qualités JPEG essayées dans l'ordre, puis réduction des dimensions
+const JPEG_QUALITIES = [0.85, 0.75, 0.65, 0.55, 0.45];
+const DOWNSCALE_STEP = 0.8;
+const MAX_DOWNSCALES = 3;
+
+export interface ProcessedRendition {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export type ProcessedImage = Record<ImageRenditionName, ProcessedRendition>;
+
+export interface ProcessOptions {
+  // Annule l'effet miroir de la caméra frontale
+  mirror?: boolean;
+  // Multiplie les budgets (voir networkBudgetFactor)
+  budgetFactor?: number;
+}
+
+// Messages échangés avec le worker
+export interface ProcessRequest extends ProcessOptions {
+  id: number;
+  bitmap: ImageBitmap;
+}
+
+export type ProcessResponse =
+  | { id: number; image: ProcessedImage; error?: undefined }
+  | { id: number; image?: undefined; error: string };
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+// Budgets réduits en mode économie de données ou sur réseau lent
+export const networkBudgetFactor = (): number => {
+  const connection = (navigator as Navigator & {
+    connection?: { saveData?: boolean; effectiveType?: string };
+  }).connection;
+  if (!connection) return 1;
+  if (connection.saveData) return 0.5;
+  if (connection.effectiveType === 'slow-2g' || connection.effectiveType === '2g') return 0.4;
+  if (connection.effectiveType === '3g') return 0.7;
+  return 1;
+};
+
+const encodeJpeg = (canvas: AnyCanvas, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: 'image/jpeg', quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Canvas encoding failed'))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
+
+const drawScaled = (
+  createCanvas: (width: number, height: number) => AnyCanvas,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  mirror: boolean
+): AnyCanvas => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  if (mirror) {
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+// Une taille : on baisse la qualité, puis les dimensions, jusqu'à tenir dans le budget
+const renderRendition = async (
+  createCanvas: (width: number, height: number) => AnyCanvas,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  spec: RenditionSpec,
+  options: ProcessOptions
+): Promise<ProcessedRendition> => {
+  const budget = spec.maxBytes * (options.budgetFactor ?? 1);
+  let scale = Math.min(1, spec.maxSide / Math.max(sourceWidth, sourceHeight));
+  let best: ProcessedRendition | null = null;
+
+  for (let attempt = 0; attempt <= MAX_DOWNSCALES; attempt++) {
+    const width = Math.max(1, Math.round(sourceWidth * scale));
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+    const canvas = drawScaled(createCanvas, source, width, height, !!options.mirror);
+
+    for (const quality of JPEG_QUALITIES) {
+      const blob = await encodeJpeg(canvas, quality);
+      best = { blob, width, height };
+      if (blob.size <= budget) return best;
+    }
+    scale *= DOWNSCALE_STEP;
+  }
+
+  // Budget intenable : on garde la version la plus légère obtenue
+  return best!;
+};
+
+// Produit toutes les tailles à partir d'une image source (utilisé par le worker
+// et par le repli sur le thread principal)
+export const renderRenditions = async (
+  createCanvas: (width: number, height: number) => AnyCanvas,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  options: ProcessOptions = {}
+): Promise<ProcessedImage> => {
+  const image = {} as ProcessedImage;
+  for (const name of RENDITION_NAMES) {
+    image[name] = await renderRendition(createCanvas, source, sourceWidth, sourceHeight, RENDITION_SPECS[name], options);
+  }
+  return image;
+};
+
+const supportsWorker = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (image: ProcessedImage) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./mediaProcessing.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ProcessResponse>) => {
+      const request = pendingRequests.get(event.data.id);
+      if (!request) return;
+      pendingRequests.delete(event.data.id);
+      if (event.data.error !== undefined) {
+        request.reject(new Error(event.data.error));
+      } else {
+        request.resolve(event.data.image);
+      }
+    };
+    worker.onerror = (event) => {
+      // Worker inutilisable (chargement impossible...) : repli sur le thread principal
+      console.warn('Media worker failed:', event.message);
+      pendingRequests.forEach(request => request.reject(new Error(event.message || 'Media worker failed')));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const processInWorker = async (video: HTMLVideoElement, options: ProcessOptions): Promise<ProcessedImage> => {
+  const bitmap = await createImageBitmap(video);
+  const id = ++nextRequestId;
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    const request: ProcessRequest = { id, bitmap, ...options };
+    getWorker().postMessage(request, [bitmap]);
+  });
+};
+
+const processOnMainThread = (video: HTMLVideoElement, options: ProcessOptions): Promise<ProcessedImage> => {
+  const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  };
+  return renderRenditions(createCanvas, video, video.videoWidth, video.videoHeight, options);
+};
+
+/**
+ * Capture l'image courante d'une vidéo (caméra) et produit les trois tailles
+ */
+export const processVideoFrame = async (
+  video: HTMLVideoElement,
+  { mirror = false, budgetFactor = networkBudgetFactor() }: ProcessOptions = {}
+): Promise<ProcessedImage> => {
+  const options = { mirror, budgetFactor };
+  if (supportsWorker()) {
+    try {
+      return await processInWorker(video, options);
+    } catch (error) {
+      console.warn('Processing photo on the main thread:', error);
+    }
+  }
+  return processOnMainThread(video, options);
+};
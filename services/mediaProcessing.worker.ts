@@ -0,0 +1,26 @@
+import { ProcessRequest, ProcessResponse, renderRenditions } from './mediaProcessing';
+
+// Worker de traitement des photos : redimensionne et compresse hors du thread
+// principal avec OffscreenCanvas (voir processVideoFrame)
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (event: MessageEvent<ProcessRequest>) => {
+  const { id, bitmap, mirror, budgetFactor } = event.data;
+  let response: ProcessResponse;
+  try {
+    const image = await renderRenditions(
+      (width, height) => new OffscreenCanvas(width, height),
+      bitmap,
+      bitmap.width,
+      bitmap.height,
+      { mirror, budgetFactor }
+    );
+    response = { id, image };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    bitmap.close();
+  }
+  scope.postMessage(response);
+};
@@ -0,0 +1,220 @@
+import { Result, ok, failWith } from './result';
+import { haversineDistanceKm, ringContainsPoint } from './geoService';
+
+// Registre des quartiers : un fichier GeoJSON par ville, listé dans un index.
+// Ajouter une ville ne demande aucun changement de code : déposer
+// <ville>.geojson et l'ajouter à index.json, dans public/neighborhoods ou sur
+// le serveur pointé par VITE_NEIGHBORHOODS_URL (bucket de stockage...).
+//
+// index.json :
+//   { "cities": [{ "id": "conakry", "name": "Conakry", "countryCode": "GN",
+//                  "bbox": [minLon, minLat, maxLon, maxLat], "file": "conakry.geojson" }] }
+//
+// Chaque feature porte properties.name ; sa géométrie est un Polygon, un
+// MultiPolygon ou un simple Point (quartier connu par son centre seulement).
+// properties.label ([lon, lat]) place l'étiquette sur la carte, sinon le
+// centre du plus grand contour est utilisé.
+
+export const DEFAULT_NEIGHBORHOODS_URL = '/neighborhoods';
+
+// Hors de tout contour, quartier le plus proche dans ce rayon (centre à centre)
+export const NEIGHBORHOOD_MATCH_RADIUS_KM = 2.5;
+
+export interface NeighborhoodCity {
+  id: string;
+  name: string;
+  // ISO 3166-1 alpha-2
+  countryCode: string;
+  // [minLon, minLat, maxLon, maxLat]
+  bbox: [number, number, number, number];
+  // Relatif à l'URL du registre
+  file: string;
+}
+
+export interface Neighborhood {
+  name: string;
+  city: string;
+  // Position de l'étiquette, et centre pour la recherche du plus proche
+  lat: number;
+  lon: number;
+  // Polygones → anneaux à plat [lon, lat, ...] ; vide pour un quartier ponctuel
+  polygons: number[][][];
+}
+
+interface GeoJsonFeature {
+  type?: string;
+  properties?: { name?: unknown; label?: unknown } | null;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+}
+
+const isPosition = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && typeof value[0] === 'number' && typeof value[1] === 'number';
+
+const flattenRing = (ring: unknown): number[] | null => {
+  if (!Array.isArray(ring) || ring.length < 4 || !ring.every(isPosition)) return null;
+  return ring.flatMap(([lon, lat]) => [lon, lat]);
+};
+
+const polygonsOf = (geometry: GeoJsonFeature['geometry']): number[][][] => {
+  const raw =
+    geometry?.type === 'Polygon' ? [geometry.coordinates] :
+    geometry?.type === 'MultiPolygon' ? geometry.coordinates :
+    [];
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(polygon => (Array.isArray(polygon) ? polygon.map(flattenRing) : []))
+    .filter((rings): rings is number[][] => rings.length > 0 && rings.every(ring => ring !== null));
+};
+
+// Centre (barycentre de l'aire) d'un anneau à plat
+const ringCentroid = (ring: number[]): { lat: number; lon: number; area: number } => {
+  let area = 0, cx = 0, cy = 0;
+  for (let i = 0, j = ring.length - 2; i < ring.length; j = i, i += 2) {
+    const cross = ring[j] * ring[i + 1] - ring[i] * ring[j + 1];
+    area += cross;
+    cx += (ring[j] + ring[i]) * cross;
+    cy += (ring[j + 1] + ring[i + 1]) * cross;
+  }
+  if (area === 0) return { lon: ring[0], lat: ring[1], area: 0 };
+  return { lon: cx / (3 * area), lat: cy / (3 * area), area: Math.abs(area / 2) };
+};
+
+// Features invalides ignorées : un fichier mal formé ne casse pas la ville entière
+export const parseNeighborhoods = (collection: unknown, city: string): Neighborhood[] => {
+  const features = (collection as { features?: unknown })?.features;
+  if (!Array.isArray(features)) return [];
+
+  const neighborhoods: Neighborhood[] = [];
+  for (const feature of features as GeoJsonFeature[]) {
+    const name = feature?.properties?.name;
+    if (typeof name !== 'string' || !name.trim()) continue;
+
+    const polygons = polygonsOf(feature.geometry);
+    const label = feature.properties?.label;
+    let center: { lat: number; lon: number } | null = null;
+    if (isPosition(label)) {
+      center = { lon: label[0], lat: label[1] };
+    } else if (feature.geometry?.type === 'Point' && isPosition(feature.geometry.coordinates)) {
+      center = { lon: feature.geometry.coordinates[0], lat: feature.geometry.coordinates[1] };
+    } else if (polygons.length > 0) {
+      center = polygons
+        .map(polygon => ringCentroid(polygon[0]))
+        .reduce((largest, c) => (c.area > largest.area ? c : largest));
+    }
+    if (!center) continue;
+
+    neighborhoods.push({ name: name.trim(), city, lat: center.lat, lon: center.lon, polygons });
+  }
+  return neighborhoods;
+};
+
+// Premier anneau : contour extérieur, les suivants sont des trous
+const polygonContains = (rings: number[][], lat: number, lon: number): boolean =>
+  ringContainsPoint(rings[0], lat, lon) && !rings.slice(1).some(hole => ringContainsPoint(hole, lat, lon));
+
+// Quartier contenant le point, sinon le plus proche dans maxDistanceKm
+export const findNeighborhood = (
+  neighborhoods: Neighborhood[],
+  lat: number,
+  lon: number,
+  maxDistanceKm: number = NEIGHBORHOOD_MATCH_RADIUS_KM
+): Neighborhood | null => {
+  const containing = neighborhoods.find(n => n.polygons.some(polygon => polygonContains(polygon, lat, lon)));
+  if (containing) return containing;
+
+  let nearest: Neighborhood | null = null;
+  let nearestKm = maxDistanceKm;
+  for (const n of neighborhoods) {
+    const distanceKm = haversineDistanceKm(lat, lon, n.lat, n.lon);
+    if (distanceKm <= nearestKm) {
+      nearest = n;
+      nearestKm = distanceKm;
+    }
+  }
+  return nearest;
+};
+
+const cityContains = ({ bbox: [minLon, minLat, maxLon, maxLat] }: NeighborhoodCity, lat: number, lon: number) =>
+  lat >= minLat && lat <= maxLat && lon >= minLon && lon <= maxLon;
+
+export interface NeighborhoodQuery {
+  // Toutes les villes de ce pays (pays affiché dans le fil)
+  countryCode?: string | null;
+  // Et les villes dont l'emprise contient l'un de ces points (stories, utilisateur)
+  points?: { lat: number; lon: number }[];
+}
+
+export const createNeighborhoodRegistry = (baseUrl: string = DEFAULT_NEIGHBORHOODS_URL) => {
+  const root = baseUrl.replace(/\/$/, '');
+  let citiesPromise: Promise<NeighborhoodCity[]> | null = null;
+  // null : ville en échec, retentée au prochain chargement
+  const cityFiles = new Map<string, Promise<Neighborhood[] | null>>();
+  // Même ensemble de villes → même tableau (pas de re-rendu inutile)
+  const combined = new Map<string, Neighborhood[]>();
+
+  const fetchJson = async (path: string): Promise<unknown> => {
+    const response = await fetch(`${root}/${path}`);
+    if (!response.ok) {
+      throw Object.assign(new Error(`Neighborhoods ${path} failed (${response.status})`), { status: response.status });
+    }
+    return response.json();
+  };
+
+  const loadCities = (): Promise<NeighborhoodCity[]> => {
+    if (!citiesPromise) {
+      citiesPromise = fetchJson('index.json')
+        .then(index => {
+          const cities = (index as { cities?: NeighborhoodCity[] })?.cities;
+          return Array.isArray(cities) ? cities.filter(c => c?.id && c.file && Array.isArray(c.bbox)) : [];
+        })
+        .catch(error => {
+          citiesPromise = null;
+          throw error;
+        });
+    }
+    return citiesPromise;
+  };
+
+  const loadCity = (city: NeighborhoodCity): Promise<Neighborhood[] | null> => {
+    let pending = cityFiles.get(city.id);
+    if (!pending) {
+      pending = fetchJson(city.file)
+        .then(collection => parseNeighborhoods(collection, city.name))
+        .catch(error => {
+          // Une ville indisponible n'empêche pas les autres
+          console.warn(`Neighborhoods of ${city.name} not loaded:`, error);
+          cityFiles.delete(city.id);
+          return null;
+        });
+      cityFiles.set(city.id, pending);
+    }
+    return pending;
+  };
+
+  return {
+    async load({ countryCode, points = [] }: NeighborhoodQuery): Promise<Result<Neighborhood[]>> {
+      try {
+        const cities = (await loadCities()).filter(
+          city => city.countryCode === countryCode || points.some(p => cityContains(city, p.lat, p.lon))
+        );
+        const key = cities.map(city => city.id).sort().join('|');
+        const cached = combined.get(key);
+        if (cached) return ok(cached);
+
+        const perCity = await Promise.all(cities.map(loadCity));
+        const neighborhoods = perCity.flatMap(list => list ?? []);
+        // Résultat partiel : pas mis en cache, pour reprendre la ville manquante
+        if (perCity.every(list => list !== null)) combined.set(key, neighborhoods);
+        return ok(neighborhoods);
+      } catch (error) {
+        return failWith('Error loading neighborhoods:', error);
+      }
+    }
+  };
+};
+
+export type NeighborhoodRegistry = ReturnType<typeof createNeighborhoodRegistry>;
+
+export const neighborhoodRegistry = createNeighborhoodRegistry(
+  import.meta.env.VITE_NEIGHBORHOODS_URL || DEFAULT_NEIGHBORHOODS_URL
+);
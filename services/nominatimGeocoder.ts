@@ -0,0 +1,75 @@
+import { GeoAddress, GeocodingProvider, PlaceSearchResult, ReverseGeocodeResult } from './geocoding';
+
+// Fournisseur Nominatim (OpenStreetMap). Politique d'usage :
+// https://operations.osmfoundation.org/policies/nominatim/
+// - au plus 1 requête par seconde (minIntervalMs)
+// - application identifiable : les navigateurs n'autorisent pas à changer le
+//   User-Agent, l'app est identifiée par son Referer et, si configuré, par le
+//   paramètre email (VITE_GEOCODING_EMAIL)
+
+export const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+
+export interface NominatimOptions {
+  baseUrl?: string;
+  email?: string;
+}
+
+interface NominatimAddress extends Omit<GeoAddress, 'countryCode'> {
+  country_code?: string;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  address?: NominatimAddress;
+  error?: string;
+}
+
+const toGeoAddress = ({ country_code, ...rest }: NominatimAddress = {}): GeoAddress => ({
+  ...rest,
+  countryCode: country_code ? country_code.toUpperCase() : undefined
+});
+
+export const createNominatimProvider = ({
+  baseUrl = DEFAULT_NOMINATIM_URL,
+  email
+}: NominatimOptions = {}): GeocodingProvider => {
+  const request = async <T>(path: string, params: Record<string, string>): Promise<T> => {
+    const query = new URLSearchParams({ format: 'json', ...params });
+    if (email) query.set('email', email);
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/${path}?${query}`);
+    if (!response.ok) {
+      // 429 → rate_limited, 5xx → unknown (voir toServiceError)
+      throw Object.assign(new Error(`Nominatim ${path} failed (${response.status})`), { status: response.status });
+    }
+    return response.json() as Promise<T>;
+  };
+
+  return {
+    kind: 'nominatim',
+    minIntervalMs: NOMINATIM_MIN_INTERVAL_MS,
+
+    async reverse(lat, lon, zoom): Promise<ReverseGeocodeResult | null> {
+      const place = await request<NominatimPlace>('reverse', {
+        lat: String(lat),
+        lon: String(lon),
+        zoom: String(zoom)
+      });
+      // "Unable to geocode" : pas de lieu à ces coordonnées
+      if (place.error) return null;
+      return { displayName: place.display_name, address: toGeoAddress(place.address) };
+    },
+
+    async search(query): Promise<PlaceSearchResult[]> {
+      const places = await request<NominatimPlace[]>('search', { q: query });
+      return places.map(place => ({
+        name: place.display_name.split(',')[0],
+        displayName: place.display_name,
+        lat: parseFloat(place.lat),
+        lon: parseFloat(place.lon)
+      }));
+    }
+  };
+};
@@ -0,0 +1,261 @@
+import { Story } from '../types';
+import { BackendKind, ReportReason, SupabaseStory, storyToSupabase, supabaseToStory } from './backend';
+import { Result, ServiceError, isRetryable, ok } from './result';
+import { backend, storiesService, moderationService, mediaService } from './supabaseService';
+
+// Outbox : actions faites hors ligne (stories, likes, signalements, suppressions),
+// rejouées dans l'ordre quand le réseau revient. L'app vide l'outbox elle-même
+// (au démarrage, sur l'événement "online") ; si aucun onglet n'est ouvert, le
+// service worker la rejoue via Background Sync (voir public/sw.js).
+//
+// Le schéma de la base est partagé avec public/sw.js : les stories sont
+// stockées au format Supabase pour pouvoir être envoyées telles quelles en REST.
+
+export const OUTBOX_DB_NAME = 'spotlive-outbox';
+const OUTBOX_DB_VERSION = 1;
+export const OUTBOX_SYNC_TAG = 'spotlive-outbox';
+
+export type OutboxAction =
+  | { kind: 'createStory'; story: SupabaseStory; videoBlob?: Blob }
+  | { kind: 'toggleLike'; storyId: string; userId: string; liked: boolean }
+  | { kind: 'reportStory'; storyId: string; userId: string; reason: ReportReason; details?: string }
+  | { kind: 'deleteStory'; storyId: string; userId: string };
+
+export type OutboxEntry = OutboxAction & {
+  // Clé auto-incrémentée : ordre d'envoi
+  seq?: number;
+  createdAt: number;
+  attempts: number;
+};
+
+// Lu par le service worker pour rejouer sans l'app
+interface OutboxConfig {
+  backend: BackendKind;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const getDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('entries', { keyPath: 'seq', autoIncrement: true });
+        db.createObjectStore('meta');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Un blob: par vidéo en attente (évite d'en recréer à chaque lecture)
+const queuedVideoUrls = new Map<string, string>();
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+// Demande au service worker un "sync" dès que le réseau revient
+const requestBackgroundSync = async () => {
+  try {
+    if (!('serviceWorker' in navigator)) return;
+    const registration = await navigator.serviceWorker.ready;
+    // Background Sync : absent des types DOM de TypeScript
+    await (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } })
+      .sync?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    // Background Sync non supporté (Safari, Firefox) : l'app rejoue sur "online"
+    console.warn('Background sync unavailable:', error);
+  }
+};
+
+const isSameTarget = (entry: OutboxEntry, storyId: string, userId?: string) =>
+  entry.kind === 'createStory'
+    ? entry.story.id === storyId
+    : entry.storyId === storyId && (!userId || entry.userId === userId);
+
+const list = async (): Promise<OutboxEntry[]> => {
+  const db = await getDb();
+  return requestToPromise<OutboxEntry[]>(db.transaction('entries').objectStore('entries').getAll());
+};
+
+const remove = async (seq: number) => {
+  const db = await getDb();
+  const tx = db.transaction('entries', 'readwrite');
+  tx.objectStore('entries').delete(seq);
+  await transactionDone(tx);
+};
+
+export const outbox = {
+  async enqueue(action: OutboxAction): Promise<void> {
+    const db = await getDb();
+    const entries = await list();
+    const tx = db.transaction('entries', 'readwrite');
+    const store = tx.objectStore('entries');
+
+    if (action.kind === 'toggleLike') {
+      // L'état voulu est idempotent : seule la dernière intention compte
+      entries
+        .filter(entry => entry.kind === 'toggleLike' && isSameTarget(entry, action.storyId, action.userId))
+        .forEach(entry => store.delete(entry.seq!));
+    }
+
+    const deletedId = action.kind === 'deleteStory' ? action.storyId : null;
+    const queuedCreate = deletedId !== null &&
+      entries.some(entry => entry.kind === 'createStory' && entry.story.id === deletedId);
+
+    if (queuedCreate) {
+      // Story jamais envoyée : on annule tout ce qui la concerne, rien à supprimer côté serveur
+      entries
+        .filter(entry => isSameTarget(entry, deletedId))
+        .forEach(entry => store.delete(entry.seq!));
+    } else {
+      const entry: OutboxEntry = { ...action, createdAt: Date.now(), attempts: 0 };
+      store.add(entry);
+    }
+    await transactionDone(tx);
+
+    notify();
+    void requestBackgroundSync();
+  },
+
+  list,
+
+  // Stories en attente d'envoi, prêtes à afficher (vidéo servie depuis le blob)
+  async queuedStories(): Promise<Story[]> {
+    const entries = await list();
+    return entries.flatMap(entry => {
+      if (entry.kind !== 'createStory') return [];
+      const story = supabaseToStory(entry.story);
+      if (!entry.videoBlob) return [story];
+
+      let videoUrl = queuedVideoUrls.get(story.id);
+      if (!videoUrl) {
+        videoUrl = URL.createObjectURL(entry.videoBlob);
+        queuedVideoUrls.set(story.id, videoUrl);
+      }
+      return [{ ...story, videoUrl }];
+    });
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Config du backend pour le service worker (il n'a pas accès à import.meta.env)
+  async saveConfig(): Promise<void> {
+    const config: OutboxConfig = {
+      backend: backend.kind,
+      supabaseUrl: import.meta.env.VITE_SUPABASE_URL || '',
+      supabaseAnonKey: import.meta.env.VITE_SUPABASE_ANON_KEY || ''
+    };
+    const db = await getDb();
+    const tx = db.transaction('meta', 'readwrite');
+    tx.objectStore('meta').put(config, 'config');
+    await transactionDone(tx);
+  }
+};
+
+// Exécute une action avec les services de l'app
+const runEntry = async (entry: OutboxEntry): Promise<Result<unknown>> => {
+  switch (entry.kind) {
+    case 'createStory': {
+      let row = entry.story;
+      if (entry.videoBlob) {
+        const upload = await mediaService.uploadVideo(entry.videoBlob, row.id);
+        if (!upload.ok) return upload;
+        row = { ...row, video_url: upload.data };
+      }
+      // Photo (et ses tailles) ou poster pris hors ligne : encore en data URL base64
+      const images = await mediaService.uploadStoryImages(supabaseToStory(row), row.id, row.video_url ? 'poster' : 'photo');
+      if (!images.ok) return images;
+      row = { ...row, image_url: images.data.imageUrl, image_renditions: images.data.imageRenditions };
+      const created = await storiesService.createStory(supabaseToStory(row));
+      // Clé déjà prise : la story a été créée par un envoi précédent interrompu
+      const cause = created.error?.cause as { code?: string; name?: string } | undefined;
+      if (!created.ok && (cause?.code === '23505' || cause?.name === 'ConstraintError')) {
+        return ok(supabaseToStory(row));
+      }
+      return created;
+    }
+    case 'toggleLike':
+      return storiesService.toggleLike(entry.storyId, entry.userId, entry.liked);
+    case 'reportStory':
+      return moderationService.reportStory(entry.storyId, entry.userId, entry.reason, entry.details);
+    case 'deleteStory': {
+      const deleted = await storiesService.deleteStory(entry.storyId, entry.userId);
+      // Déjà supprimée : l'objectif est atteint
+      return !deleted.ok && deleted.error.kind === 'not_found' ? ok(undefined) : deleted;
+    }
+  }
+};
+
+interface FlushHandlers {
+  onSent?: (entry: OutboxEntry, data: unknown) => void;
+  // Refus définitif (droits, validation...) : l'action est retirée de l'outbox
+  onDropped?: (entry: OutboxEntry, error: ServiceError) => void;
+}
+
+let flushing: Promise<void> | null = null;
+
+// Rejoue l'outbox dans l'ordre ; s'arrête à la première erreur passagère
+export const flushOutbox = (handlers: FlushHandlers = {}): Promise<void> => {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    try {
+      for (const entry of await list()) {
+        const result = await runEntry(entry);
+
+        if (!result.ok && isRetryable(result.error)) {
+          const db = await getDb();
+          const tx = db.transaction('entries', 'readwrite');
+          tx.objectStore('entries').put({ ...entry, attempts: entry.attempts + 1 });
+          await transactionDone(tx);
+          void requestBackgroundSync();
+          break;
+        }
+
+        await remove(entry.seq!);
+        if (result.ok) {
+          handlers.onSent?.(entry, result.data);
+        } else {
+          handlers.onDropped?.(entry, result.error);
+        }
+        notify();
+      }
+    } catch (error) {
+      console.error('Error flushing outbox:', error);
+    } finally {
+      flushing = null;
+    }
+  })();
+
+  return flushing;
+};
+
+// Format de stockage d'une story créée hors ligne
+export const toOutboxStory = (story: Story): SupabaseStory => ({
+  ...storyToSupabase(story),
+  // L'URL blob: locale n'a pas de sens côté serveur : la vidéo part avec videoBlob
+  video_url: story.videoUrl?.startsWith('blob:') ? undefined : story.videoUrl
+});
@@ -0,0 +1,80 @@
+import { Story } from '../types';
+import { StoryChange, SupabaseStory, NearbyQuery, supabaseToStory } from './backend';
+import { boundingBoxAround } from './geoService';
+
+// Application incrémentale des changements Realtime (INSERT/UPDATE/DELETE)
+// sur une liste de stories, sans recharger le feed.
+
+// Filtres du feed à respecter pour les stories reçues en temps réel
+export interface FeedFilter {
+  countryCode?: string | null;
+  near?: NearbyQuery | null;
+}
+
+const isCompleteRow = (row: Partial<SupabaseStory>): row is SupabaseStory =>
+  !!row.id && !!row.created_at && !!row.expires_at && row.latitude !== undefined && row.longitude !== undefined;
+
+// La ligne doit-elle apparaître dans le feed courant ?
+export const rowMatchesFeed = (
+  row: Partial<SupabaseStory>,
+  filter: FeedFilter,
+  now: number = Date.now()
+): boolean => {
+  if (row.is_hidden) return false;
+  if (row.expires_at && new Date(row.expires_at).getTime() <= now) return false;
+  if (filter.countryCode && filter.countryCode !== 'ALL' && row.country_code !== filter.countryCode) {
+    return false;
+  }
+  if (filter.near && row.latitude !== undefined && row.longitude !== undefined) {
+    const box = boundingBoxAround(filter.near.latitude, filter.near.longitude, filter.near.radiusKm);
+    if (
+      row.latitude < box.minLat || row.latitude > box.maxLat ||
+      row.longitude < box.minLon || row.longitude > box.maxLon
+    ) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Retourne la liste mise à jour (la même référence si rien ne change)
+export const applyStoryChange = (
+  stories: Story[],
+  change: StoryChange,
+  filter: FeedFilter,
+  now: number = Date.now()
+): Story[] => {
+  const id = change.new.id || change.old.id;
+  if (!id) return stories;
+
+  const index = stories.findIndex(s => s.id === id);
+
+  if (change.eventType === 'DELETE') {
+    return index === -1 ? stories : stories.filter(s => s.id !== id);
+  }
+
+  const row = change.new;
+  if (!rowMatchesFeed(row, filter, now)) {
+    // Story masquée par la modération, expirée, ou hors filtre
+    return index === -1 ? stories : stories.filter(s => s.id !== id);
+  }
+
+  if (index !== -1) {
+    // Story connue : fusionner les champs reçus
+    const current = stories[index];
+    const updated: Story = isCompleteRow(row)
+      ? supabaseToStory(row)
+      : { ...current, likes: row.likes ?? current.likes, caption: row.caption ?? current.caption };
+    const next = [...stories];
+    next[index] = updated;
+    return next;
+  }
+
+  // Seul un INSERT ajoute une story : un UPDATE sur une story non chargée
+  // (page suivante, autre pays) est ignoré
+  if (change.eventType === 'INSERT' && isCompleteRow(row)) {
+    return [supabaseToStory(row), ...stories];
+  }
+
+  return stories;
+};
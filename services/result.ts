@@ -0,0 +1,97 @@
+// Résultat typé des appels de service : les appelants distinguent
+// "aucune donnée" (ok avec une liste vide) d'une vraie erreur (réseau, droits...).
+
+export type ServiceErrorKind =
+  | 'network'           // hors ligne, serveur injoignable
+  | 'auth'              // session/JWT invalide ou expiré
+  | 'permission_denied' // refusé par une politique RLS
+  | 'not_found'         // ligne absente (supprimée, expirée, pas à l'utilisateur)
+  | 'validation'        // données refusées (contrainte, format, règle métier)
+  | 'rate_limited'      // trop de requêtes
+  | 'unknown';
+
+export interface ServiceError {
+  kind: ServiceErrorKind;
+  message: string;
+  cause?: unknown;
+}
+
+// data/error déclarés des deux côtés : sans strictNullChecks, TypeScript
+// ne rétrécit pas l'union sur `ok`, l'accès à `error` doit rester typé
+export type Result<T> =
+  | { ok: true; data: T; error?: undefined }
+  | { ok: false; data?: undefined; error: ServiceError };
+
+export const ok = <T>(data: T): Result<T> => ({ ok: true, data });
+
+export const fail = <T = never>(kind: ServiceErrorKind, message: string, cause?: unknown): Result<T> => ({
+  ok: false,
+  error: { kind, message, cause }
+});
+
+// Codes SQLSTATE / PostgREST utiles (https://postgrest.org/en/stable/references/errors.html)
+const classifyCode = (code: string): ServiceErrorKind | null => {
+  if (code === '42501') return 'permission_denied';
+  if (code === 'PGRST116') return 'not_found';
+  if (code === 'PGRST301' || code === 'PGRST302' || code.startsWith('28')) return 'auth';
+  // 22xxx : données invalides, 23xxx : contrainte violée, P0001 : RAISE EXCEPTION
+  if (code.startsWith('22') || code.startsWith('23') || code === 'P0001') return 'validation';
+  // Erreurs IndexedDB (DOMException.name)
+  if (code === 'ConstraintError' || code === 'DataError') return 'validation';
+  if (code === 'NotFoundError') return 'not_found';
+  return null;
+};
+
+const classifyStatus = (status: number): ServiceErrorKind | null => {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'permission_denied';
+  if (status === 404) return 'not_found';
+  if (status === 400 || status === 409 || status === 413 || status === 422) return 'validation';
+  if (status === 429) return 'rate_limited';
+  return null;
+};
+
+// Traduit n'importe quelle erreur (PostgrestError, StorageError, TypeError de fetch,
+// DOMException IndexedDB...) en ServiceError
+export const toServiceError = (error: unknown): ServiceError => {
+  const err = (error ?? {}) as {
+    code?: unknown;
+    name?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    message?: unknown;
+  };
+  const message = typeof err.message === 'string' && err.message ? err.message : String(error);
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return { kind: 'network', message, cause: error };
+  }
+  // fetch() rejette avec un TypeError quand le réseau est coupé
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return { kind: 'network', message, cause: error };
+  }
+
+  const code = typeof err.code === 'string' ? err.code : typeof err.name === 'string' ? err.name : '';
+  const byCode = code ? classifyCode(code) : null;
+  if (byCode) return { kind: byCode, message, cause: error };
+
+  const status = Number(err.status ?? err.statusCode);
+  const byStatus = Number.isFinite(status) ? classifyStatus(status) : null;
+  if (byStatus) return { kind: byStatus, message, cause: error };
+
+  if (/row-level security/i.test(message)) return { kind: 'permission_denied', message, cause: error };
+  if (/jwt/i.test(message)) return { kind: 'auth', message, cause: error };
+  if (/rate limit|too many requests/i.test(message)) return { kind: 'rate_limited', message, cause: error };
+
+  return { kind: 'unknown', message, cause: error };
+};
+
+// Journalise puis renvoie l'erreur typée (remplace les `console.error` + `return null`)
+export const failWith = <T = never>(context: string, error: unknown): Result<T> => {
+  console.error(context, error);
+  return { ok: false, error: toServiceError(error) };
+};
+
+// Erreurs passagères : l'action peut être rejouée plus tard (voir services/outbox.ts)
+export const isRetryable = (error: ServiceError): boolean =>
+  error.kind === 'network' || error.kind === 'rate_limited';
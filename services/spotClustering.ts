@@ -0,0 +1,94 @@
+import { Spot } from '../types';
+
+// Regroupement des spots de la carte selon leur distance à l'écran : au zoom
+// courant, les marqueurs à moins de CLUSTER_RADIUS_PX les uns des autres
+// fusionnent en une bulle (nombre de stories + vibe cumulée).
+//
+// Algorithme glouton sur grille : les spots sont rangés dans des cellules de
+// la taille du rayon, puis chaque spot encore libre (le plus "vibe" d'abord)
+// absorbe ses voisins libres des 9 cellules autour de lui.
+
+// Distance à l'écran (px) en dessous de laquelle deux marqueurs fusionnent
+export const CLUSTER_RADIUS_PX = 56;
+
+export interface SpotCluster {
+  id: string;
+  spots: Spot[];
+  // Centre de la bulle (moyenne des spots)
+  latitude: number;
+  longitude: number;
+  storyCount: number;
+  // Somme des vibeScore des spots regroupés
+  vibeScore: number;
+}
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+const toCluster = (spots: Spot[]): SpotCluster => ({
+  id: spots.length === 1 ? spots[0].id : `cluster_${spots[0].id}`,
+  spots,
+  latitude: spots.reduce((sum, spot) => sum + spot.latitude, 0) / spots.length,
+  longitude: spots.reduce((sum, spot) => sum + spot.longitude, 0) / spots.length,
+  storyCount: spots.reduce((sum, spot) => sum + spot.activeStories.length, 0),
+  vibeScore: spots.reduce((sum, spot) => sum + spot.vibeScore, 0)
+});
+
+/**
+ * Regroupe les spots dont les positions à l'écran (project) sont à moins de
+ * radiusPx. Un spot isolé donne une "bulle" d'un seul spot, avec son propre id.
+ */
+export const clusterSpots = (
+  spots: Spot[],
+  project: (spot: Spot) => ScreenPoint,
+  radiusPx: number = CLUSTER_RADIUS_PX
+): SpotCluster[] => {
+  const points = spots.map(spot => ({ spot, ...project(spot) }));
+  const cellKey = (cx: number, cy: number) => `${cx}:${cy}`;
+
+  const grid = new Map<string, number[]>();
+  points.forEach((point, index) => {
+    const key = cellKey(Math.floor(point.x / radiusPx), Math.floor(point.y / radiusPx));
+    const cell = grid.get(key);
+    if (cell) cell.push(index);
+    else grid.set(key, [index]);
+  });
+
+  // Les spots les plus actifs servent de centre : leur bulle reste stable en zoomant
+  const order = points
+    .map((_, index) => index)
+    .sort((a, b) => points[b].spot.vibeScore - points[a].spot.vibeScore);
+
+  const assigned = new Set<number>();
+  const clusters: SpotCluster[] = [];
+  const radiusSq = radiusPx * radiusPx;
+
+  for (const seedIndex of order) {
+    if (assigned.has(seedIndex)) continue;
+    assigned.add(seedIndex);
+    const seed = points[seedIndex];
+    const members = [seed.spot];
+
+    const cx = Math.floor(seed.x / radiusPx);
+    const cy = Math.floor(seed.y / radiusPx);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const index of grid.get(cellKey(cx + dx, cy + dy)) ?? []) {
+          if (assigned.has(index)) continue;
+          const point = points[index];
+          const distSq = (point.x - seed.x) ** 2 + (point.y - seed.y) ** 2;
+          if (distSq <= radiusSq) {
+            assigned.add(index);
+            members.push(point.spot);
+          }
+        }
+      }
+    }
+
+    clusters.push(toCluster(members));
+  }
+
+  return clusters;
+};
@@ -0,0 +1,189 @@
+import { CheckIn, Spot, SpotRecord, Story } from '../types';
+import { getSpotTrendingScore } from './trendingService';
+import { Neighborhood, findNeighborhood } from './neighborhoods';
+import { haversineDistanceKm } from './geoService';
+import { bestNameSimilarity, isSameSpot } from './spots';
+
+// Regroupement des stories en spots pour la carte en direct et pour la
+// relecture des dernières 24 heures (à un instant passé) :
+// - par spot persistant (story.spotId) : id stable, position, catégorie et
+//   description du spot (voir services/spots.ts)
+// - sinon (stories en attente dans l'outbox, anciennes lignes), même nom de
+//   lieu et coordonnées arrondies à 3 décimales (~100 m)
+// Les groupes obtenus sont ensuite fusionnés quand leurs noms et positions
+// désignent le même lieu (mêmes seuils que resolve_spot, voir isSameSpot) :
+// "Le Petit Bateau", "le petit bateau" et "Petit Bateau" à 30 m ne font
+// qu'un spot, nommé d'après la graphie la plus utilisée.
+// Les check-ins actifs (voir services/checkIns.ts) sont rattachés aux spots
+// de la même façon et comptent dans leur vibeScore.
+
+// Quartier du registre (voir services/neighborhoods.ts), sinon la ville par défaut
+export const getNeighborhoodName = (
+  lat: number,
+  lon: number,
+  defaultCity: string,
+  neighborhoods: Neighborhood[]
+): string => findNeighborhood(neighborhoods, lat, lon)?.name ?? defaultCity;
+
+export interface SpotContext {
+  cityName: string;
+  neighborhoods: Neighborhood[];
+  // Spots persistants déjà chargés, par id
+  spotRecords: Record<string, SpotRecord>;
+}
+
+export interface SpotGrouping {
+  spots: Spot[];
+  spotByStoryId: Record<string, Spot>;
+}
+
+// Story ou check-in : ce qu'il faut pour le rattacher à un spot
+type SpotActivity = Story | CheckIn;
+
+const legacySpotKey = (item: SpotActivity): string => {
+  const latKey = Math.round(item.latitude * 1000) / 1000;
+  const lonKey = Math.round(item.longitude * 1000) / 1000;
+  return `${item.locationName}|${latKey}|${lonKey}`;
+};
+
+interface StoryGroup {
+  id: string;
+  record?: SpotRecord;
+  stories: Story[];
+  checkIns: CheckIn[];
+  latitude: number;
+  longitude: number;
+  // Graphies connues : nom et alias du spot, noms de lieu des stories et check-ins
+  names: string[];
+}
+
+// Position du spot, sinon moyenne des stories (des check-ins s'il n'y en a pas)
+const groupCenter = (record: SpotRecord | undefined, stories: Story[], checkIns: CheckIn[]) => {
+  if (record) return { latitude: record.latitude, longitude: record.longitude };
+  const items: SpotActivity[] = stories.length > 0 ? stories : checkIns;
+  return {
+    latitude: items.reduce((sum, item) => sum + item.latitude, 0) / items.length,
+    longitude: items.reduce((sum, item) => sum + item.longitude, 0) / items.length
+  };
+};
+
+// Un spot persistant absorbe les autres graphies du même lieu, et garde son
+// id d'un rendu à l'autre quel que soit le nombre de stories ; entre deux
+// spots persistants (ou deux groupes provisoires), le plus petit id
+const mergeSameSpots = (groups: StoryGroup[]): StoryGroup[] => {
+  const ordered = [...groups].sort((a, b) =>
+    Number(!!b.record) - Number(!!a.record) ||
+    a.id.localeCompare(b.id)
+  );
+  const merged: StoryGroup[] = [];
+
+  for (const group of ordered) {
+    const target = merged.find(primary => {
+      const distanceM = haversineDistanceKm(primary.latitude, primary.longitude, group.latitude, group.longitude) * 1000;
+      const similarity = Math.max(...group.names.map(name => bestNameSimilarity(primary.names, name)));
+      return isSameSpot(similarity, distanceM);
+    });
+    if (!target) {
+      merged.push({ ...group, stories: [...group.stories], checkIns: [...group.checkIns], names: [...group.names] });
+      continue;
+    }
+    target.stories.push(...group.stories);
+    target.checkIns.push(...group.checkIns);
+    target.names.push(...group.names);
+    if (!target.record) {
+      Object.assign(target, groupCenter(undefined, target.stories, target.checkIns));
+    }
+  }
+
+  return merged;
+};
+
+// Graphie la plus utilisée par les stories et check-ins ; à égalité, le nom canonique
+const mostCommonName = (group: StoryGroup): string => {
+  const counts = new Map<string, number>();
+  for (const item of [...group.stories, ...group.checkIns]) {
+    const name = item.locationName.trim();
+    if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  let best = group.record?.name ?? group.names[0] ?? '';
+  let bestCount = counts.get(best) ?? 0;
+  for (const [name, count] of counts) {
+    if (count > bestCount) {
+      best = name;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// now : instant auquel le vibeScore est calculé (fraîcheur des stories)
+// checkIns : check-ins actifs (aucun pour la relecture des 24 heures)
+export const groupStoriesIntoSpots = (
+  stories: Story[],
+  { cityName, neighborhoods, spotRecords }: SpotContext,
+  now: number = Date.now(),
+  checkIns: CheckIn[] = []
+): SpotGrouping => {
+  const byId = new Map<string, { stories: Story[]; checkIns: CheckIn[] }>();
+  const entryFor = (item: SpotActivity) => {
+    // Spot pas encore chargé : l'id est déjà le bon, le nom vient de la story
+    const id = item.spotId || `spot_${legacySpotKey(item)}`;
+    let entry = byId.get(id);
+    if (!entry) {
+      entry = { stories: [], checkIns: [] };
+      byId.set(id, entry);
+    }
+    return entry;
+  };
+
+  for (const story of stories) {
+    entryFor(story).stories.push(story);
+  }
+  for (const checkIn of checkIns) {
+    if (checkIn.expiresAt > now) entryFor(checkIn).checkIns.push(checkIn);
+  }
+
+  const groups: StoryGroup[] = [...byId].map(([id, entry]) => {
+    const record = spotRecords[id];
+    return {
+      id,
+      record,
+      stories: entry.stories,
+      checkIns: entry.checkIns,
+      ...groupCenter(record, entry.stories, entry.checkIns),
+      names: [
+        ...(record ? [record.name, ...record.aliases] : []),
+        ...[...entry.stories, ...entry.checkIns].map(item => item.locationName)
+      ]
+    };
+  });
+
+  const spots: Spot[] = [];
+  const spotByStoryId: Record<string, Spot> = {};
+
+  for (const group of mergeSameSpots(groups)) {
+    const { record, latitude, longitude } = group;
+    const neighborhood = getNeighborhoodName(latitude, longitude, cityName, neighborhoods);
+    const vibeScore = Math.round(getSpotTrendingScore(group.stories, now, group.checkIns));
+
+    const spot: Spot = {
+      id: group.id,
+      name: mostCommonName(group),
+      neighborhood,
+      latitude,
+      longitude,
+      description: record?.description ?? '',
+      category: record?.category,
+      activeStories: group.stories,
+      activeCheckIns: group.checkIns,
+      vibeScore
+    };
+
+    spots.push(spot);
+    for (const story of group.stories) {
+      spotByStoryId[story.id] = spot;
+    }
+  }
+
+  return { spots, spotByStoryId };
+};
@@ -0,0 +1,127 @@
+import { SpotCategory, SpotRecord } from '../types';
+import { haversineDistanceKm } from './geoService';
+
+// Spots persistants : une story publiée est rattachée (spot_id) au spot
+// existant qui porte le même nom à peu de chose près (voir isSameSpot), créé
+// sinon. Côté Supabase, c'est resolve_spot() (supabase-setup.sql) appelée
+// par un trigger à l'insertion ; le backend local applique les mêmes règles
+// avec les fonctions ci-dessous. Les deux doivent rester identiques.
+
+// Même nom une fois normalisé ("Le Petit Bateau" / "petit bateau") : jusqu'à 150 m
+export const SPOT_MATCH_RADIUS_M = 150;
+// Nom proche (faute de frappe, lettre en trop) : seulement à moins de 50 m
+export const SPOT_FUZZY_RADIUS_M = 50;
+export const SPOT_NAME_SIMILARITY = 0.85;
+
+export interface SpotInput {
+  name: string;
+  latitude: number;
+  longitude: number;
+  countryCode: string;
+}
+
+// Clé de comparaison des noms : sans accents ni casse, ponctuation réduite à
+// des espaces ("Café d'Ici" → "cafe d ici"), comme spot_name_key() en SQL
+export const normalizeSpotName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Mots-clés testés dans l'ordre sur le nom normalisé (même liste que
+// guess_spot_category() en SQL) ; les admins corrigent ensuite si besoin
+const CATEGORY_KEYWORDS: Array<[SpotCategory, string[]]> = [
+  ['cafe', ['cafe', 'coffee', 'salon de the']],
+  ['restaurant', ['restaurant', 'resto', 'maquis', 'grill', 'pizzeria', 'dibiterie']],
+  ['bar', ['bar', 'pub', 'lounge', 'buvette']],
+  ['club', ['club', 'boite', 'disco']],
+  ['beach', ['plage', 'beach']],
+  ['park', ['parc', 'park', 'jardin', 'garden']],
+  ['market', ['marche', 'market', 'mall', 'centre commercial']],
+  ['venue', ['stade', 'stadium', 'salle', 'cinema', 'theatre', 'concert']]
+];
+
+export const guessSpotCategory = (name: string): SpotCategory => {
+  const words = ` ${normalizeSpotName(name)} `;
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some(k => words.includes(` ${k} `)));
+  return match ? match[0] : 'other';
+};
+
+// Articles ignorés pour comparer les noms ("Le Petit Bateau" = "Petit Bateau"),
+// même liste que spot_name_core() en SQL
+const NAME_STOP_WORDS = new Set(['le', 'la', 'les', 'l', 'the', 'chez', 'au', 'aux']);
+
+export const spotNameCore = (name: string): string => {
+  const key = normalizeSpotName(name);
+  return key.split(' ').filter(word => !NAME_STOP_WORDS.has(word)).join(' ') || key;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 : même nom une fois normalisé ; sinon 1 - distance d'édition / longueur
+// (spot_name_similarity() en SQL)
+export const spotNameSimilarity = (a: string, b: string): number => {
+  const x = spotNameCore(a);
+  const y = spotNameCore(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+};
+
+// Deux noms distants de distanceM désignent-ils le même lieu ?
+export const isSameSpot = (similarity: number, distanceM: number): boolean =>
+  similarity === 1
+    ? distanceM <= SPOT_MATCH_RADIUS_M
+    : similarity >= SPOT_NAME_SIMILARITY && distanceM <= SPOT_FUZZY_RADIUS_M;
+
+// Meilleure similarité entre un nom et les noms connus d'un spot
+export const bestNameSimilarity = (names: string[], name: string): number =>
+  names.reduce((best, known) => Math.max(best, spotNameSimilarity(known, name)), 0);
+
+// Spot existant pour ce nom (canonique ou alias) : le plus ressemblant, puis le plus proche
+export const findMatchingSpot = (spots: SpotRecord[], input: SpotInput): SpotRecord | null => {
+  let best: { spot: SpotRecord; similarity: number; distanceM: number } | null = null;
+  for (const spot of spots) {
+    const similarity = bestNameSimilarity([spot.name, ...spot.aliases], input.name);
+    const distanceM = haversineDistanceKm(input.latitude, input.longitude, spot.latitude, spot.longitude) * 1000;
+    if (!isSameSpot(similarity, distanceM)) continue;
+    if (!best || similarity > best.similarity || (similarity === best.similarity && distanceM < best.distanceM)) {
+      best = { spot, similarity, distanceM };
+    }
+  }
+  return best?.spot ?? null;
+};
+
+export const createSpotRecord = (id: string, input: SpotInput): SpotRecord => ({
+  id,
+  name: input.name.trim(),
+  aliases: [],
+  category: guessSpotCategory(input.name),
+  latitude: input.latitude,
+  longitude: input.longitude,
+  countryCode: input.countryCode,
+  description: ''
+});
+
+// Nouvelle graphie gardée en alias ; null si le spot la connaît déjà
+export const withSpotAlias = (spot: SpotRecord, name: string): SpotRecord | null => {
+  const alias = name.trim();
+  if (!alias || alias === spot.name || spot.aliases.includes(alias)) return null;
+  return { ...spot, aliases: [...spot.aliases, alias] };
+};
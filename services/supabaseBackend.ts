@@ -0,0 +1,706 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { CheckIn, ImageRenditionName, SpotRecord, Story, User } from '../types';
+import { getCountryName } from './countryService';
+import { boundingBoxAround } from './geoService';
+import {
+  StorageBackend,
+  StoryChange,
+  RealtimeStatus,
+  SupabaseStory,
+  SupabaseSpot,
+  SupabaseCheckIn,
+  SupabaseLikeState,
+  CheckInChange,
+  CheckInRequest,
+  StoriesPage,
+  StoriesPageOptions,
+  DEFAULT_STORIES_PAGE_SIZE,
+  LikeState,
+  ReportReason,
+  ReportResult,
+  CountryCount,
+  ImageKind,
+  mediaStoragePath,
+  storyToSupabase,
+  supabaseToStory,
+  supabaseToSpotRecord,
+  supabaseToCheckIn
+} from './backend';
+import { Result, ok, fail, failWith } from './result';
+
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
+
+// Client créé à la demande : createClient() lève une erreur sans URL,
+// ce qui empêcherait de démarrer l'app avec le backend local.
+let client: SupabaseClient | null = null;
+
+export const getSupabase = (): SupabaseClient => {
+  if (!client) {
+    client = createClient(supabaseUrl, supabaseAnonKey);
+  }
+  return client;
+};
+
+// Fonctions API pour les stories
+const stories = {
+  // Récupérer les stories actives, filtrées par pays (optionnel) et non masquées
+  async getActiveStories(countryCode?: string | null): Promise<Result<Story[]>> {
+    try {
+      const now = new Date().toISOString();
+      let query = getSupabase()
+        .from('stories')
+        .select('*')
+        .gt('expires_at', now)
+        .eq('is_hidden', false); // Exclure les stories masquées
+
+      // Filtrer par pays si spécifié
+      if (countryCode && countryCode !== 'ALL') {
+        query = query.eq('country_code', countryCode);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) {
+        return failWith('Error fetching stories:', error);
+      }
+
+      return ok((data || []).map(supabaseToStory));
+    } catch (error) {
+      return failWith('Error fetching stories:', error);
+    }
+  },
+
+  // Récupérer une page de stories actives (pagination keyset sur created_at + id)
+  async getActiveStoriesPage({
+    countryCode,
+    near,
+    cursor,
+    limit = DEFAULT_STORIES_PAGE_SIZE
+  }: StoriesPageOptions): Promise<Result<StoriesPage>> {
+    try {
+      const now = new Date().toISOString();
+      let query = getSupabase()
+        .from('stories')
+        .select('*')
+        .gt('expires_at', now)
+        .eq('is_hidden', false);
+
+      if (countryCode && countryCode !== 'ALL') {
+        query = query.eq('country_code', countryCode);
+      }
+
+      // "Near Me" : rectangle englobant le rayon (utilise idx_stories_location),
+      // la distance exacte est vérifiée côté client
+      if (near) {
+        const box = boundingBoxAround(near.latitude, near.longitude, near.radiusKm);
+        query = query
+          .gte('latitude', box.minLat)
+          .lte('latitude', box.maxLat)
+          .gte('longitude', box.minLon)
+          .lte('longitude', box.maxLon);
+      }
+
+      // Stories strictement plus anciennes que le curseur (id départage les égalités)
+      if (cursor) {
+        query = query.or(
+          `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt."${cursor.id}")`
+        );
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return failWith('Error fetching stories page:', error);
+      }
+
+      const rows = (data || []) as SupabaseStory[];
+      const last = rows[rows.length - 1];
+      return ok({
+        stories: rows.map(supabaseToStory),
+        nextCursor: rows.length === limit && last ? { createdAt: last.created_at, id: last.id } : null
+      });
+    } catch (error) {
+      return failWith('Error fetching stories page:', error);
+    }
+  },
+
+  // Récupérer une story active par id (sans filtre de pays)
+  async getStory(storyId: string): Promise<Result<Story>> {
+    try {
+      const { data, error } = await getSupabase()
+        .from('stories')
+        .select('*')
+        .eq('id', storyId)
+        .gt('expires_at', new Date().toISOString())
+        .eq('is_hidden', false)
+        .maybeSingle();
+
+      if (error) {
+        return failWith('Error fetching story:', error);
+      }
+      if (!data) {
+        return fail('not_found', 'Story not found or expired');
+      }
+
+      return ok(supabaseToStory(data as SupabaseStory));
+    } catch (error) {
+      return failWith('Error fetching story:', error);
+    }
+  },
+
+  // Récupérer la liste des pays disponibles (avec compteur de stories)
+  async getAvailableCountries(): Promise<Result<CountryCount[]>> {
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await getSupabase()
+        .from('stories')
+        .select('country_code')
+        .gt('expires_at', now);
+
+      if (error) {
+        return failWith('Error fetching countries:', error);
+      }
+
+      // Compter les stories par pays
+      const countryCounts: Record<string, number> = {};
+      data?.forEach(story => {
+        if (story.country_code) {
+          countryCounts[story.country_code] = (countryCounts[story.country_code] || 0) + 1;
+        }
+      });
+
+      // Convertir en array avec noms de pays
+      return ok(Object.entries(countryCounts)
+        .map(([code, count]) => ({
+          code,
+          name: getCountryName(code),
+          count
+        }))
+        .sort((a, b) => b.count - a.count)); // Trier par nombre de stories
+    } catch (error) {
+      return failWith('Error fetching countries:', error);
+    }
+  },
+
+  // Créer une nouvelle story
+  async createStory(story: Story): Promise<Result<Story>> {
+    try {
+      const sbStory = storyToSupabase(story);
+      const { data, error } = await getSupabase()
+        .from('stories')
+        .insert([sbStory])
+        .select()
+        .single();
+
+      if (error) {
+        return failWith('Error creating story:', error);
+      }
+
+      return ok(supabaseToStory(data));
+    } catch (error) {
+      return failWith('Error creating story:', error);
+    }
+  },
+
+  // Supprimer une story
+  async deleteStory(storyId: string, userId: string): Promise<Result<void>> {
+    try {
+      // select() : un DELETE refusé par RLS ou filtré par user_id ne renvoie
+      // pas d'erreur, seulement zéro ligne
+      const { data, error } = await getSupabase()
+        .from('stories')
+        .delete()
+        .eq('id', storyId)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        return failWith('Error deleting story:', error);
+      }
+
+      if (!data || data.length === 0) {
+        // Zéro ligne : story absente, ou suppression refusée (autre user, RLS)
+        const { data: remaining, error: lookupError } = await getSupabase()
+          .from('stories')
+          .select('id')
+          .eq('id', storyId);
+
+        if (lookupError) {
+          return failWith('Error deleting story:', lookupError);
+        }
+
+        return remaining && remaining.length > 0
+          ? fail('permission_denied', 'Story not owned by user')
+          : fail('not_found', 'Story not found');
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return failWith('Error deleting story:', error);
+    }
+  },
+
+  // Liker/Unliker une story en un seul appel (RPC toggle_like, atomique côté serveur)
+  async toggleLike(storyId: string, userId: string, liked?: boolean): Promise<Result<LikeState>> {
+    try {
+      const { data, error } = await getSupabase().rpc('toggle_like', {
+        p_story_id: storyId,
+        p_user_id: userId,
+        p_liked: liked ?? null
+      });
+
+      if (error) {
+        return failWith('Error toggling like:', error);
+      }
+
+      // null : story introuvable (supprimée ou expirée)
+      if (!data || typeof data !== 'object' || !('likes' in data)) {
+        return fail('not_found', 'Story not found');
+      }
+
+      const result = data as SupabaseLikeState;
+      return ok({
+        likes: result.likes,
+        hasLiked: result.has_liked
+      });
+    } catch (error) {
+      return failWith('Error toggling like:', error);
+    }
+  },
+
+  // Récupérer les likes d'un utilisateur
+  async getUserLikes(userId: string): Promise<Result<Set<string>>> {
+    try {
+      const { data, error } = await getSupabase()
+        .from('story_likes')
+        .select('story_id')
+        .eq('user_id', userId);
+
+      if (error) {
+        return failWith('Error fetching user likes:', error);
+      }
+
+      return ok(new Set(data?.map(like => like.story_id) || []));
+    } catch (error) {
+      return failWith('Error fetching user likes:', error);
+    }
+  },
+
+  // Récupérer le nombre de likes pour plusieurs stories
+  async getStoriesLikeCounts(storyIds: string[]): Promise<Result<Record<string, number>>> {
+    if (storyIds.length === 0) return ok({});
+
+    try {
+      const { data, error } = await getSupabase()
+        .from('stories')
+        .select('id, likes')
+        .in('id', storyIds);
+
+      if (error) {
+        return failWith('Error fetching stories like counts:', error);
+      }
+
+      return ok(data?.reduce((acc, story) => ({
+        ...acc,
+        [story.id]: story.likes || 0
+      }), {}) || {});
+    } catch (error) {
+      return failWith('Error fetching stories like counts:', error);
+    }
+  },
+};
+
+// Spots persistants (créés par resolve_spot() à l'insertion d'une story)
+const spots = {
+  async getSpots(spotIds: string[]): Promise<Result<SpotRecord[]>> {
+    if (spotIds.length === 0) return ok([]);
+
+    try {
+      const { data, error } = await getSupabase()
+        .from('spots')
+        .select('*')
+        .in('id', spotIds);
+
+      if (error) {
+        return failWith('Error fetching spots:', error);
+      }
+
+      return ok(((data || []) as SupabaseSpot[]).map(supabaseToSpotRecord));
+    } catch (error) {
+      return failWith('Error fetching spots:', error);
+    }
+  },
+};
+
+// Check-ins (écrits par la fonction RPC check_in(), qui valide la distance)
+const checkIns = {
+  async getActiveCheckIns(countryCode?: string | null): Promise<Result<CheckIn[]>> {
+    try {
+      let query = getSupabase()
+        .from('check_ins')
+        .select('*')
+        .gt('expires_at', new Date().toISOString());
+
+      if (countryCode && countryCode !== 'ALL') {
+        query = query.eq('country_code', countryCode);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) {
+        return failWith('Error fetching check-ins:', error);
+      }
+
+      return ok(((data || []) as SupabaseCheckIn[]).map(supabaseToCheckIn));
+    } catch (error) {
+      return failWith('Error fetching check-ins:', error);
+    }
+  },
+
+  async checkIn(request: CheckInRequest): Promise<Result<CheckIn>> {
+    try {
+      const { data, error } = await getSupabase().rpc('check_in', {
+        p_user_id: request.userId,
+        p_spot_id: request.spotId ?? null,
+        p_location_name: request.locationName,
+        p_spot_latitude: request.spotLatitude,
+        p_spot_longitude: request.spotLongitude,
+        p_latitude: request.latitude,
+        p_longitude: request.longitude,
+        p_country_code: request.countryCode
+      });
+
+      // Trop loin du spot : RAISE EXCEPTION (P0001) => validation
+      if (error) {
+        return failWith('Error checking in:', error);
+      }
+
+      return ok(supabaseToCheckIn(data as SupabaseCheckIn));
+    } catch (error) {
+      return failWith('Error checking in:', error);
+    }
+  },
+};
+
+// Users anonymes
+const users = {
+  // Créer un user anonyme
+  async createAnonymousUser(username: string, avatarUrl: string): Promise<Result<string>> {
+    try {
+      const { data, error } = await getSupabase()
+        .from('users')
+        .insert([{ username, avatar_url: avatarUrl }])
+        .select('id')
+        .single();
+
+      if (error) {
+        return failWith('Error creating user:', error);
+      }
+
+      return ok(data.id);
+    } catch (error) {
+      return failWith('Error creating user:', error);
+    }
+  },
+
+  // Récupérer un user
+  async getUser(userId: string): Promise<Result<User>> {
+    try {
+      const { data, error } = await getSupabase()
+        .from('users')
+        .select('*')
+        .eq('id', userId)
+        .single();
+
+      // PGRST116 (aucune ligne) devient not_found
+      if (error) {
+        return failWith('Error fetching user:', error);
+      }
+
+      return ok({
+        id: data.id,
+        username: data.username,
+        avatarUrl: data.avatar_url,
+        isGuest: false,
+      });
+    } catch (error) {
+      return failWith('Error fetching user:', error);
+    }
+  },
+};
+
+// Modération
+const moderation = {
+  // Signaler une story
+  async reportStory(
+    storyId: string,
+    userId: string,
+    reason: ReportReason,
+    details?: string
+  ): Promise<Result<ReportResult>> {
+    try {
+      const { data, error } = await getSupabase().rpc('report_story', {
+        p_story_id: storyId,
+        p_user_id: userId,
+        p_reason: reason,
+        p_details: details || null
+      });
+
+      if (error) {
+        return failWith('Error reporting story:', error);
+      }
+
+      if (data && typeof data === 'object' && 'success' in data) {
+        const result = data as any;
+        if (!result.success) {
+          // Refus métier de report_story() : déjà signalée, ou story expirée
+          return fail(
+            result.error === 'Already reported' ? 'validation' : 'not_found',
+            result.message || 'Erreur lors du signalement'
+          );
+        }
+        return ok({
+          message: result.message || 'Signalement enregistré',
+          reportsCount: result.reports_count,
+          isHidden: result.is_hidden
+        });
+      }
+
+      return fail('unknown', 'Réponse inattendue du serveur');
+    } catch (error) {
+      return failWith('Error reporting story:', error);
+    }
+  },
+
+  // Obtenir les raisons de signalement disponibles
+  async getReportReasons(): Promise<Result<Array<{ value: ReportReason; label: string }>>> {
+    try {
+      const { data, error } = await getSupabase().rpc('get_report_reasons');
+
+      if (error) {
+        return failWith('Error fetching report reasons:', error);
+      }
+
+      return ok((data as Array<{ value: ReportReason; label: string }>) || []);
+    } catch (error) {
+      return failWith('Error fetching report reasons:', error);
+    }
+  }
+};
+
+// Upload de fichiers média (bucket public `stories`)
+const STORAGE_BUCKET = 'stories';
+
+// Upload puis URL publique du fichier
+const uploadToStorage = async (blob: Blob, filePath: string, contentType: string): Promise<Result<string>> => {
+  const supabase = getSupabase();
+
+  console.log('Uploading to Supabase Storage:', {
+    bucket: STORAGE_BUCKET,
+    filePath,
+    size: blob.size,
+    contentType
+  });
+
+  const { data: uploadData, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(filePath, blob, { contentType, upsert: true });
+
+  if (error) {
+    return failWith('Supabase Storage upload error:', error);
+  }
+
+  if (!uploadData) {
+    console.error('Upload succeeded but no data returned');
+    return fail('unknown', 'Upload returned no data');
+  }
+
+  const { data: urlData } = supabase.storage.from(STORAGE_BUCKET).getPublicUrl(filePath);
+  const publicUrl = urlData?.publicUrl || null;
+
+  if (!publicUrl) {
+    console.error('Failed to get public URL for uploaded file');
+    return fail('unknown', 'No public URL for uploaded file');
+  }
+
+  return ok(publicUrl);
+};
+
+const media = {
+  /**
+   * Upload une vidéo vers Supabase Storage
+   *
+   * IMPORTANT:
+   * - Les vidéos en base64 data URLs sont souvent non lisibles / trop lourdes sur mobile.
+   * - Pour un affichage fiable en feed, on doit stocker la vidéo dans Supabase Storage
+   *   et sauvegarder une URL (publique ou signée) dans `stories.video_url`.
+   */
+  async uploadVideo(blob: Blob, storyId: string): Promise<Result<string>> {
+    try {
+      // CRITICAL FIX: Validate blob before upload
+      if (!blob || blob.size === 0) {
+        console.error('Invalid blob: empty or null');
+        return fail('validation', 'Video is empty');
+      }
+
+      const contentType = blob.type || 'video/mp4';
+      const result = await uploadToStorage(blob, mediaStoragePath('video', storyId, contentType), contentType);
+      if (result.ok) {
+        console.log('Video uploaded successfully, public URL:', result.data);
+      }
+      return result;
+    } catch (error) {
+      return failWith('Error uploading video:', error);
+    }
+  },
+
+  /**
+   * Upload une photo (ou le poster d'une vidéo) vers Supabase Storage :
+   * `stories.image_url` ne contient plus que l'URL, pas l'image en base64
+   */
+  async uploadImage(blob: Blob, storyId: string, kind: ImageKind, rendition?: ImageRenditionName): Promise<Result<string>> {
+    try {
+      if (!blob || blob.size === 0) {
+        console.error('Invalid blob: empty or null');
+        return fail('validation', 'Image is empty');
+      }
+
+      const contentType = blob.type || 'image/jpeg';
+      return await uploadToStorage(blob, mediaStoragePath(kind, storyId, contentType, rendition), contentType);
+    } catch (error) {
+      return failWith('Error uploading image:', error);
+    }
+  },
+};
+
+// Abonnements Realtime (tables stories et story_likes)
+let likesChannelCount = 0;
+
+const realtime = {
+  subscribeToStories(onChange: (change: StoryChange) => void): () => void {
+    const supabase = getSupabase();
+    const channel = supabase
+      .channel('stories-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'stories'
+        },
+        (payload) => {
+          onChange({
+            eventType: payload.eventType,
+            new: payload.new as Partial<SupabaseStory>,
+            old: payload.old as Partial<SupabaseStory>
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  subscribeToCheckIns(onChange: (change: CheckInChange) => void): () => void {
+    const supabase = getSupabase();
+    const channel = supabase
+      .channel('check-ins-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'check_ins'
+        },
+        (payload) => {
+          onChange({
+            eventType: payload.eventType,
+            new: payload.new as Partial<SupabaseCheckIn>,
+            old: payload.old as Partial<SupabaseCheckIn>
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  subscribeToStoryLikes(
+    storyIds: string[],
+    onLikeChange: (storyId: string | null) => void,
+    onStatusChange?: (status: RealtimeStatus) => void
+  ): () => void {
+    const supabase = getSupabase();
+    const watched = new Set(storyIds);
+    let unsubscribed = false;
+    onStatusChange?.('connecting');
+
+    const channel = supabase
+      .channel(`story-likes-${++likesChannelCount}`)
+      // Realtime limite le filtre "in" à 100 valeurs
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'story_likes',
+          filter: `story_id=in.(${storyIds.slice(0, 100).join(',')})`
+        },
+        (payload) => {
+          onLikeChange((payload.new as { story_id?: string }).story_id ?? null);
+        }
+      )
+      // Les DELETE ne sont pas filtrables côté serveur : tri côté client
+      // (story_id n'est présent que si story_likes est en REPLICA IDENTITY FULL)
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'story_likes'
+        },
+        (payload) => {
+          const storyId = (payload.old as { story_id?: string }).story_id;
+          if (!storyId) {
+            onLikeChange(null);
+          } else if (watched.has(storyId)) {
+            onLikeChange(storyId);
+          }
+        }
+      )
+      .subscribe((status) => {
+        // removeChannel() signale CLOSED après coup : l'abonné ne l'attend plus
+        if (unsubscribed) return;
+        if (status === 'SUBSCRIBED') {
+          onStatusChange?.('connected');
+        } else {
+          // CHANNEL_ERROR, TIMED_OUT, CLOSED
+          onStatusChange?.('disconnected');
+        }
+      });
+
+    return () => {
+      unsubscribed = true;
+      supabase.removeChannel(channel);
+    };
+  },
+};
+
+export const supabaseBackend: StorageBackend = {
+  kind: 'supabase',
+  stories,
+  spots,
+  checkIns,
+  users,
+  moderation,
+  media,
+  realtime
+};
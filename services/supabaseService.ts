@@ -1,449 +1,61 @@
-import { createClient } from '@supabase/supabase-js';
-import { Story, User } from '../types';
-import { getCountryName } from './countryService';
-
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
-
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
-
-// Types pour Supabase
-export interface SupabaseStory {
-  id: string;
-  user_id: string;
-  username: string;
-  user_avatar: string;
-  image_url: string;
-  video_url?: string;
-  caption: string;
-  vibe_tags: string[];
-  latitude: number;
-  longitude: number;
-  location_name: string;
-  country_code: string; // ISO 3166-1 alpha-2
-  likes: number;
-  created_at: string;
-  expires_at: string;
-}
-
-export interface SupabaseUser {
-  id: string;
-  username: string;
-  avatar_url: string;
-  created_at: string;
+import { StorageBackend, ImageKind, resolveBackendKind } from './backend';
+import { supabaseBackend } from './supabaseBackend';
+import { createLocalBackend } from './localBackend';
+import { ImageRenditionName, ImageRenditions, Story } from '../types';
+import { Result, ok } from './result';
+
+export type { ImageKind, SupabaseStory, SupabaseSpot, SupabaseCheckIn, CheckInRequest, CheckInChange, SupabaseUser, StoryChange, StoriesCursor, StoriesPage, NearbyQuery, LikeState, RealtimeStatus, ReportReason } from './backend';
+export { storyToSupabase, supabaseToStory, DEFAULT_STORIES_PAGE_SIZE, DEFAULT_REPORT_REASONS } from './backend';
+export { getSupabase } from './supabaseBackend';
+export type { Result, ServiceError, ServiceErrorKind } from './result';
+
+// Backend choisi via VITE_STORAGE_BACKEND (voir services/backend.ts)
+export const backend: StorageBackend =
+  resolveBackendKind() === 'local' ? createLocalBackend() : supabaseBackend;
+
+if (backend.kind === 'local') {
+  console.info('[SpotLive] Using local IndexedDB storage backend');
 }
 
-// Convertir Story (app) vers SupabaseStory
-export const storyToSupabase = (story: Story): SupabaseStory => ({
-  id: story.id,
-  user_id: story.userId,
-  username: story.username,
-  user_avatar: story.userAvatar,
-  image_url: story.imageUrl,
-  video_url: story.videoUrl,
-  caption: story.caption,
-  vibe_tags: story.vibeTags,
-  latitude: story.latitude,
-  longitude: story.longitude,
-  location_name: story.locationName,
-  country_code: story.countryCode || 'XX', // Fallback si non défini
-  likes: story.likes || 0,
-  created_at: new Date(story.timestamp).toISOString(),
-  expires_at: new Date(story.expiresAt).toISOString(),
-});
-
-// Convertir SupabaseStory vers Story (app)
-export const supabaseToStory = (sb: SupabaseStory): Story => ({
-  id: sb.id,
-  userId: sb.user_id,
-  username: sb.username,
-  userAvatar: sb.user_avatar,
-  imageUrl: sb.image_url,
-  videoUrl: sb.video_url,
-  timestamp: new Date(sb.created_at).getTime(),
-  caption: sb.caption,
-  vibeTags: sb.vibe_tags,
-  expiresAt: new Date(sb.expires_at).getTime(),
-  latitude: sb.latitude,
-  longitude: sb.longitude,
-  locationName: sb.location_name,
-  countryCode: sb.country_code,
-  likes: sb.likes,
-});
-
-// Fonction pour incrémenter les likes de manière atomique
-const incrementStoryLikes = async (storyId: string, increment: number) => {
-  const { data, error } = await supabase.rpc('increment_story_likes', {
-    story_id: storyId,
-    increment
-  });
-  
-  if (error) throw error;
-  return data;
-};
-
 // Fonctions API pour les stories
-export const storiesService = {
-  // Récupérer les stories actives, filtrées par pays (optionnel) et non masquées
-  async getActiveStories(countryCode?: string | null): Promise<Story[]> {
-    try {
-      const now = new Date().toISOString();
-      let query = supabase
-        .from('stories')
-        .select('*')
-        .gt('expires_at', now)
-        .eq('is_hidden', false); // Exclure les stories masquées
-      
-      // Filtrer par pays si spécifié
-      if (countryCode && countryCode !== 'ALL') {
-        query = query.eq('country_code', countryCode);
-      }
-      
-      const { data, error } = await query.order('created_at', { ascending: false });
-      
-      if (error) {
-        console.error('Error fetching stories:', error);
-        return [];
-      }
-      
-      return (data || []).map(supabaseToStory);
-    } catch (error) {
-      console.error('Error fetching stories:', error);
-      return [];
-    }
-  },
+export const storiesService = backend.stories;
 
-  // Récupérer la liste des pays disponibles (avec compteur de stories)
-  async getAvailableCountries(): Promise<Array<{ code: string; name: string; count: number }>> {
-    try {
-      const now = new Date().toISOString();
-      const { data, error } = await supabase
-        .from('stories')
-        .select('country_code')
-        .gt('expires_at', now);
-      
-      if (error) {
-        console.error('Error fetching countries:', error);
-        return [];
-      }
-      
-      // Compter les stories par pays
-      const countryCounts: Record<string, number> = {};
-      data?.forEach(story => {
-        if (story.country_code) {
-          countryCounts[story.country_code] = (countryCounts[story.country_code] || 0) + 1;
-        }
-      });
-      
-      // Convertir en array avec noms de pays
-      return Object.entries(countryCounts)
-        .map(([code, count]) => ({
-          code,
-          name: getCountryName(code),
-          count
-        }))
-        .sort((a, b) => b.count - a.count); // Trier par nombre de stories
-    } catch (error) {
-      console.error('Error fetching countries:', error);
-      return [];
-    }
-  },
-
-  // Créer une nouvelle story
-  async createStory(story: Story): Promise<Story | null> {
-    try {
-      const sbStory = storyToSupabase(story);
-      const { data, error } = await supabase
-        .from('stories')
-        .insert([sbStory])
-        .select()
-        .single();
-      
-      if (error) {
-        console.error('Error creating story:', error);
-        return null;
-      }
-      
-      return supabaseToStory(data);
-    } catch (error) {
-      console.error('Error creating story:', error);
-      return null;
-    }
-  },
+// Spots persistants (nom canonique, alias, catégorie)
+export const spotsService = backend.spots;
 
-  // Supprimer une story
-  async deleteStory(storyId: string, userId: string): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('stories')
-        .delete()
-        .eq('id', storyId)
-        .eq('user_id', userId);
-      
-      return !error;
-    } catch (error) {
-      console.error('Error deleting story:', error);
-      return false;
-    }
-  },
-
-  // Liker/Unliker une story (avec contrainte d'unicité en base)
-  async toggleLike(storyId: string, userId: string): Promise<{ likes: number; hasLiked: boolean } | null> {
-    try {
-      // Vérifier si l'utilisateur a déjà liké cette story
-      const { data: existingLike, error: checkError } = await supabase
-        .from('story_likes')
-        .select('id')
-        .eq('story_id', storyId)
-        .eq('user_id', userId)
-        .maybeSingle();
-      
-      if (checkError && checkError.code !== 'PGRST116') { // PGRST116 = no rows returned
-        console.error('Error checking like:', checkError);
-        return null;
-      }
-      
-      let hasLiked = false;
-      
-      if (existingLike) {
-        // Supprimer le like existant (unlike)
-        // Le trigger mettra à jour automatiquement le compteur
-        const { error: deleteError } = await supabase
-          .from('story_likes')
-          .delete()
-          .eq('id', existingLike.id);
-        
-        if (deleteError) {
-          console.error('Error deleting like:', deleteError);
-          return null;
-        }
-        hasLiked = false;
-      } else {
-        // Ajouter un nouveau like
-        // La contrainte UNIQUE empêche les doublons même en cas de race condition
-        // Le trigger mettra à jour automatiquement le compteur
-        const { error: insertError } = await supabase
-          .from('story_likes')
-          .insert({
-            story_id: storyId,
-            user_id: userId
-          });
-        
-        if (insertError) {
-          // Si erreur d'unicité (23505), c'est qu'un like existe déjà (race condition)
-          if (insertError.code === '23505') {
-            // Récupérer l'état actuel depuis la base
-            const { data: story } = await supabase
-              .from('stories')
-              .select('likes')
-              .eq('id', storyId)
-              .single();
-            
-            // Vérifier que le like existe bien
-            const { data: likeCheck } = await supabase
-              .from('story_likes')
-              .select('id')
-              .eq('story_id', storyId)
-              .eq('user_id', userId)
-              .maybeSingle();
-            
-            return story ? { likes: story.likes, hasLiked: !!likeCheck } : null;
-          }
-          console.error('Error inserting like:', insertError);
-          return null;
-        }
-        hasLiked = true;
-      }
-      
-      // Récupérer le nombre de likes mis à jour (via trigger automatique)
-      const { data: story, error: storyError } = await supabase
-        .from('stories')
-        .select('likes')
-        .eq('id', storyId)
-        .single();
-      
-      if (storyError || !story) {
-        console.error('Error fetching story:', storyError);
-        return null;
-      }
-      
-      return {
-        likes: story.likes,
-        hasLiked
-      };
-    } catch (error) {
-      console.error('Error toggling like:', error);
-      return null;
-    }
-  },
-
-  // Récupérer les likes d'un utilisateur
-  async getUserLikes(userId: string): Promise<Set<string>> {
-    try {
-      const { data } = await supabase
-        .from('story_likes')
-        .select('story_id')
-        .eq('user_id', userId);
-
-      return new Set(data?.map(like => like.story_id) || []);
-    } catch (error) {
-      console.error('Error fetching user likes:', error);
-      return new Set();
-    }
-  },
-
-  // Récupérer le nombre de likes pour plusieurs stories
-  async getStoriesLikeCounts(storyIds: string[]): Promise<Record<string, number>> {
-    if (storyIds.length === 0) return {};
-    
-    try {
-      const { data } = await supabase
-        .from('stories')
-        .select('id, likes')
-        .in('id', storyIds);
-      
-      return data?.reduce((acc, story) => ({
-        ...acc,
-        [story.id]: story.likes || 0
-      }), {}) || {};
-    } catch (error) {
-      console.error('Error fetching stories like counts:', error);
-      return {};
-    }
-  },
-};
+// Check-ins ("je suis là" sans story)
+export const checkInsService = backend.checkIns;
 
 // Service pour les users anonymes
-export const usersService = {
-  // Créer un user anonyme
-  async createAnonymousUser(username: string, avatarUrl: string): Promise<string | null> {
-    try {
-      const { data, error } = await supabase
-        .from('users')
-        .insert([{ username, avatar_url: avatarUrl }])
-        .select('id')
-        .single();
-      
-      if (error) {
-        console.error('Error creating user:', error);
-        return null;
-      }
-      
-      return data.id;
-    } catch (error) {
-      console.error('Error creating user:', error);
-      return null;
-    }
-  },
-
-  // Récupérer un user
-  async getUser(userId: string): Promise<User | null> {
-    try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', userId)
-        .single();
-      
-      if (error || !data) return null;
-      
-      return {
-        id: data.id,
-        username: data.username,
-        avatarUrl: data.avatar_url,
-        isGuest: false,
-      };
-    } catch (error) {
-      console.error('Error fetching user:', error);
-      return null;
-    }
-  },
-};
+export const usersService = backend.users;
 
 // Service pour la modération
-export const moderationService = {
-  // Signaler une story
-  async reportStory(
-    storyId: string, 
-    userId: string, 
-    reason: 'spam' | 'inappropriate' | 'off_topic' | 'harassment' | 'other',
-    details?: string
-  ): Promise<{ success: boolean; message: string; reportsCount?: number; isHidden?: boolean }> {
-    try {
-      const { data, error } = await supabase.rpc('report_story', {
-        p_story_id: storyId,
-        p_user_id: userId,
-        p_reason: reason,
-        p_details: details || null
-      });
-
-      if (error) {
-        console.error('Error reporting story:', error);
-        return {
-          success: false,
-          message: 'Erreur lors du signalement'
-        };
-      }
-
-      if (data && typeof data === 'object' && 'success' in data) {
-        const result = data as any;
-        return {
-          success: result.success,
-          message: result.message || 'Signalement enregistré',
-          reportsCount: result.reports_count,
-          isHidden: result.is_hidden
-        };
-      }
-
-      return {
-        success: false,
-        message: 'Réponse inattendue du serveur'
-      };
-    } catch (error) {
-      console.error('Error reporting story:', error);
-      return {
-        success: false,
-        message: 'Erreur lors du signalement'
-      };
-    }
-  },
-
-  // Obtenir les raisons de signalement disponibles
-  async getReportReasons(): Promise<Array<{ value: string; label: string }>> {
-    try {
-      const { data, error } = await supabase.rpc('get_report_reasons');
-
-      if (error) {
-        console.error('Error fetching report reasons:', error);
-        return [
-          { value: 'spam', label: 'Spam' },
-          { value: 'inappropriate', label: 'Contenu inapproprié' },
-          { value: 'off_topic', label: 'Hors sujet' },
-          { value: 'harassment', label: 'Harcèlement' },
-          { value: 'other', label: 'Autre' }
-        ];
-      }
-
-      return (data as Array<{ value: string; label: string }>) || [];
-    } catch (error) {
-      console.error('Error fetching report reasons:', error);
-      return [
-        { value: 'spam', label: 'Spam' },
-        { value: 'inappropriate', label: 'Contenu inapproprié' },
-        { value: 'off_topic', label: 'Hors sujet' },
-        { value: 'harassment', label: 'Harcèlement' },
-        { value: 'other', label: 'Autre' }
-      ];
-    }
+export const moderationService = backend.moderation;
+
+// Abonnement aux changements en temps réel
+export const realtimeService = backend.realtime;
+
+export const isBase64DataURL = (url: string | undefined): url is string =>
+  !!url && url.startsWith('data:') && url.includes(';base64,');
+
+// "data:image/jpeg;base64,..." -> Blob
+export const dataURLToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const contentType = header.slice('data:'.length).split(';')[0] || 'application/octet-stream';
+  const bytes = atob(data);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    buffer[i] = bytes.charCodeAt(i);
   }
+  return new Blob([buffer], { type: contentType });
 };
 
 // Service pour l'upload de fichiers média
 export const mediaService = {
   /**
    * Convertit un Blob en base64 data URL
-   * Cette approche fonctionne immédiatement mais a des limitations de taille
-   * Pour la production, migrez vers Supabase Storage
+   * Pour l'aperçu local uniquement : les images envoyées au backend passent
+   * par uploadImage (voir uploadDataURLImage)
    */
   async blobToDataURL(blob: Blob): Promise<string> {
     return new Promise((resolve, reject) => {
@@ -461,66 +73,59 @@ export const mediaService = {
   },
 
   /**
-   * Upload une vidéo vers Supabase Storage
-   *
-   * IMPORTANT:
-   * - Les vidéos en base64 data URLs sont souvent non lisibles / trop lourdes sur mobile.
-   * - Pour un affichage fiable en feed, on doit stocker la vidéo dans Supabase Storage
-   *   et sauvegarder une URL (publique ou signée) dans `stories.video_url`.
+   * Upload une vidéo vers le stockage du backend actif
+   * (Supabase Storage, ou IndexedDB avec le backend local)
    */
-  async uploadVideo(blob: Blob, storyId: string): Promise<string | null> {
-    try {
-      // CRITICAL FIX: Validate blob before upload
-      if (!blob || blob.size === 0) {
-        console.error('Invalid blob: empty or null');
-        return null;
-      }
-      
-      const bucket = 'stories';
-      const contentType = blob.type || 'video/mp4';
-      const extFromType = contentType.includes('/') ? contentType.split('/')[1] : 'mp4';
-      const fileExt = (extFromType || 'mp4').replace(/[^a-z0-9]/gi, '').toLowerCase() || 'mp4';
-      const filePath = `videos/${storyId}.${fileExt}`;
-
-      console.log('Uploading to Supabase Storage:', {
-        bucket,
-        filePath,
-        size: blob.size,
-        contentType
-      });
-
-      const { data: uploadData, error } = await supabase.storage
-        .from(bucket)
-        .upload(filePath, blob, { contentType, upsert: true });
+  uploadVideo(blob: Blob, storyId: string): Promise<Result<string>> {
+    return backend.media.uploadVideo(blob, storyId);
+  },
 
-      if (error) {
-        console.error('Supabase Storage upload error:', {
-          message: error.message,
-          statusCode: (error as any).statusCode,
-          error
-        });
-        return null;
-      }
+  /**
+   * Upload une photo ou un poster vidéo vers le stockage du backend actif
+   */
+  uploadImage(blob: Blob, storyId: string, kind: ImageKind = 'photo'): Promise<Result<string>> {
+    return backend.media.uploadImage(blob, storyId, kind);
+  },
 
-      if (!uploadData) {
-        console.error('Upload succeeded but no data returned');
-        return null;
-      }
+  /**
+   * Remplace une image en data URL base64 par l'URL du fichier uploadé.
+   * Les autres URLs (déjà uploadées, placeholder SVG inline) sont gardées telles quelles.
+   */
+  async uploadDataURLImage(
+    imageUrl: string,
+    storyId: string,
+    kind: ImageKind = 'photo',
+    rendition?: ImageRenditionName
+  ): Promise<Result<string>> {
+    if (!isBase64DataURL(imageUrl)) return ok(imageUrl);
+    return backend.media.uploadImage(dataURLToBlob(imageUrl), storyId, kind, rendition);
+  },
 
-      const { data: urlData } = supabase.storage.from(bucket).getPublicUrl(filePath);
-      const publicUrl = urlData?.publicUrl || null;
-      
-      if (!publicUrl) {
-        console.error('Failed to get public URL for uploaded file');
-        return null;
+  /**
+   * Upload l'image d'une story et toutes ses tailles (miniature, feed) encore en data URL
+   */
+  async uploadStoryImages(
+    images: Pick<Story, 'imageUrl' | 'imageRenditions'>,
+    storyId: string,
+    kind: ImageKind = 'photo'
+  ): Promise<Result<Pick<Story, 'imageUrl' | 'imageRenditions'>>> {
+    const imageUpload = await this.uploadDataURLImage(images.imageUrl, storyId, kind);
+    if (!imageUpload.ok) return imageUpload;
+    if (!images.imageRenditions) return ok({ imageUrl: imageUpload.data });
+
+    const imageRenditions: ImageRenditions = {};
+    for (const [name, rendition] of Object.entries(images.imageRenditions) as Array<[ImageRenditionName, ImageRenditions[ImageRenditionName]]>) {
+      if (!rendition) continue;
+      // La pleine taille est l'image principale, déjà envoyée
+      if (name === 'full' || rendition.url === images.imageUrl) {
+        imageRenditions[name] = { ...rendition, url: imageUpload.data };
+        continue;
       }
-      
-      console.log('Video uploaded successfully, public URL:', publicUrl);
-      return publicUrl;
-    } catch (error) {
-      console.error('Error uploading video:', error);
-      return null;
+      const upload = await this.uploadDataURLImage(rendition.url, storyId, kind, name);
+      if (!upload.ok) return upload;
+      imageRenditions[name] = { ...rendition, url: upload.data };
     }
+    return ok({ imageUrl: imageUpload.data, imageRenditions });
   },
 
   /**
@@ -532,14 +137,14 @@ export const mediaService = {
       const video = document.createElement('video');
       video.src = videoUrl;
       video.currentTime = 0.5; // Prendre une frame après 0.5 secondes
-      
+
       return new Promise((resolve) => {
         video.addEventListener('loadeddata', async () => {
           const canvas = document.createElement('canvas');
           canvas.width = video.videoWidth;
           canvas.height = video.videoHeight;
           const ctx = canvas.getContext('2d');
-          
+
           if (ctx) {
             ctx.drawImage(video, 0, 0);
             const thumbnailDataUrl = canvas.toDataURL('image/jpeg', 0.8);
@@ -550,7 +155,7 @@ export const mediaService = {
             resolve(null);
           }
         });
-        
+
         video.addEventListener('error', () => {
           URL.revokeObjectURL(videoUrl);
           resolve(null);
@@ -562,4 +167,3 @@ export const mediaService = {
     }
   },
 };
-
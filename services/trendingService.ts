@@ -0,0 +1,78 @@
+import { CheckIn, Story, Spot } from '../types';
+
+// Moteur "Trending" : score des stories et des spots selon la vitesse des likes,
+// le nombre de contributeurs distincts, les check-ins et la fraîcheur (durée
+// de vie restante).
+//
+// L'échelle reprend l'ancien vibeScore (20 pts par story, 2 pts par like) pour
+// que les seuils d'activité de MapView (HOT >= 40, ACTIVE > 10) restent valables.
+
+const STORY_BASE_POINTS = 20;
+const LIKE_POINTS = 2;
+// Points par like/heure : une story qui prend 10 likes en 1h dépasse une story
+// qui en a pris 10 en 12h
+const LIKE_VELOCITY_POINTS = 4;
+// Âge minimal pris en compte pour la vitesse (évite les divisions par ~0)
+const MIN_AGE_HOURS = 0.25;
+// Points par check-in ("je suis là"), avec la même décroissance qu'une story
+const CHECK_IN_POINTS = 10;
+// Bonus par contributeur supplémentaire sur un spot (+25 % chacun)
+const CONTRIBUTOR_BONUS = 0.25;
+// > 1 : la décroissance s'accélère à l'approche de l'expiration
+const DECAY_EXPONENT = 1.5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Part de la durée de vie restante, entre 0 (expirée) et 1 (toute neuve)
+export const getFreshness = (story: Pick<Story, 'timestamp' | 'expiresAt'>, now: number = Date.now()): number => {
+  const lifetime = story.expiresAt - story.timestamp;
+  if (lifetime <= 0) return 0;
+  const remaining = (story.expiresAt - now) / lifetime;
+  return Math.min(1, Math.max(0, remaining));
+};
+
+// Likes par heure depuis la publication
+export const getLikeVelocity = (story: Story, now: number = Date.now()): number => {
+  const ageHours = Math.max(MIN_AGE_HOURS, (now - story.timestamp) / HOUR_MS);
+  return (story.likes || 0) / ageHours;
+};
+
+export const getStoryTrendingScore = (story: Story, now: number = Date.now()): number => {
+  const likes = story.likes || 0;
+  const activity =
+    STORY_BASE_POINTS +
+    LIKE_POINTS * likes +
+    LIKE_VELOCITY_POINTS * getLikeVelocity(story, now);
+  return activity * Math.pow(getFreshness(story, now), DECAY_EXPONENT);
+};
+
+export const getCheckInTrendingScore = (checkIn: CheckIn, now: number = Date.now()): number =>
+  CHECK_IN_POINTS * Math.pow(getFreshness(checkIn, now), DECAY_EXPONENT);
+
+// Les personnes qui ont pointé comptent comme contributeurs
+export const getSpotTrendingScore = (
+  stories: Story[],
+  now: number = Date.now(),
+  checkIns: CheckIn[] = []
+): number => {
+  if (stories.length === 0 && checkIns.length === 0) return 0;
+  const total =
+    stories.reduce((sum, story) => sum + getStoryTrendingScore(story, now), 0) +
+    checkIns.reduce((sum, checkIn) => sum + getCheckInTrendingScore(checkIn, now), 0);
+  const contributors = new Set([...stories, ...checkIns].map(item => item.userId)).size;
+  return total * (1 + CONTRIBUTOR_BONUS * (contributors - 1));
+};
+
+// Stories triées par score décroissant (les plus récentes d'abord à égalité)
+export const sortStoriesByTrending = (stories: Story[], now: number = Date.now()): Story[] => {
+  const scores = new Map(stories.map(story => [story.id, getStoryTrendingScore(story, now)]));
+  return [...stories].sort((a, b) =>
+    (scores.get(b.id)! - scores.get(a.id)!) || (b.timestamp - a.timestamp)
+  );
+};
+
+// Spots triés par vibeScore (calculé avec getSpotTrendingScore)
+export const rankSpotsByTrending = (spots: Spot[]): Spot[] =>
+  [...spots].sort((a, b) =>
+    (b.vibeScore - a.vibeScore) || (b.activeStories.length - a.activeStories.length)
+  );
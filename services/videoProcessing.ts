@@ -0,0 +1,203 @@
+import { networkBudgetFactor } from './mediaProcessing';
+
+// Vidéos des stories : durée maximale, profils d'encodage (résolution, débit)
+// et découpe + ré-encodage avant upload, pour que les envois depuis une
+// connexion mobile faible restent légers.
+
+// Durée maximale d'une story vidéo (arrêt automatique de l'enregistrement)
+export const MAX_VIDEO_DURATION_S = 15;
+
+export type VideoQuality = 'high' | 'medium' | 'low';
+
+export interface VideoProfile {
+  quality: VideoQuality;
+  // Plus grand côté, en pixels (format portrait 9:16)
+  maxSide: number;
+  frameRate: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+}
+
+export const VIDEO_PROFILES: Record<VideoQuality, VideoProfile> = {
+  high: { quality: 'high', maxSide: 1280, frameRate: 30, videoBitsPerSecond: 2_000_000, audioBitsPerSecond: 96_000 },
+  medium: { quality: 'medium', maxSide: 960, frameRate: 30, videoBitsPerSecond: 1_000_000, audioBitsPerSecond: 64_000 },
+  low: { quality: 'low', maxSide: 640, frameRate: 24, videoBitsPerSecond: 500_000, audioBitsPerSecond: 48_000 }
+};
+
+// Marge sur le débit annoncé avant de considérer qu'un fichier est trop lourd
+// (certains navigateurs ignorent videoBitsPerSecond)
+const SIZE_TOLERANCE = 1.5;
+
+// Conteneurs/codecs essayés dans l'ordre : MP4/H.264 se lit partout, WebM sinon
+const RECORDER_MIME_TYPES = [
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+// Profil choisi : VITE_VIDEO_QUALITY force le choix, sinon selon le réseau
+export const selectVideoProfile = (env: ImportMetaEnv = import.meta.env): VideoProfile => {
+  const requested = env.VITE_VIDEO_QUALITY?.toLowerCase();
+  if (requested === 'high' || requested === 'medium' || requested === 'low') {
+    return VIDEO_PROFILES[requested];
+  }
+  const factor = networkBudgetFactor();
+  if (factor <= 0.5) return VIDEO_PROFILES.low;
+  if (factor < 1) return VIDEO_PROFILES.medium;
+  return VIDEO_PROFILES.high;
+};
+
+// Contraintes getUserMedia correspondant au profil (portrait)
+export const cameraConstraints = (profile: VideoProfile): MediaTrackConstraints => ({
+  width: { ideal: Math.round((profile.maxSide * 9) / 16) },
+  height: { ideal: profile.maxSide },
+  frameRate: { ideal: profile.frameRate, max: 30 }
+});
+
+export const pickRecorderMimeType = (): string | undefined => {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined;
+  return RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+// MediaRecorder limité au débit du profil (repli sans options si refusées)
+export const createVideoRecorder = (stream: MediaStream, profile: VideoProfile): MediaRecorder => {
+  const mimeType = pickRecorderMimeType();
+  try {
+    return new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: profile.videoBitsPerSecond,
+      audioBitsPerSecond: profile.audioBitsPerSecond
+    });
+  } catch (error) {
+    console.warn('MediaRecorder options rejected, using defaults:', error);
+    return new MediaRecorder(stream);
+  }
+};
+
+// Taille maximale attendue pour une durée donnée
+export const videoByteBudget = (profile: VideoProfile, durationSeconds: number): number =>
+  ((profile.videoBitsPerSecond + profile.audioBitsPerSecond) / 8) * durationSeconds * SIZE_TOLERANCE;
+
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+// Ré-encodage nécessaire : découpe demandée, ou fichier plus lourd que le profil
+export const needsReencode = (
+  blob: Blob,
+  durationSeconds: number,
+  trim: TrimRange,
+  profile: VideoProfile
+): boolean => {
+  const trimmed = trim.start > 0.05 || trim.end < durationSeconds - 0.05;
+  return trimmed || blob.size > videoByteBudget(profile, durationSeconds);
+};
+
+const waitForEvent = (target: EventTarget, type: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onEvent = () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      target.removeEventListener(type, onEvent);
+      reject(new Error(`Video ${type} failed`));
+    };
+    target.addEventListener(type, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+
+/**
+ * Découpe [start, end] et ré-encode au profil donné. La vidéo est relue en
+ * temps réel dans un canvas (image) et un graphe Web Audio (son) puis
+ * réenregistrée : l'opération dure le temps de l'extrait.
+ */
+export const trimAndReencode = async (
+  blob: Blob,
+  trim: TrimRange,
+  profile: VideoProfile,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const sourceUrl = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.src = sourceUrl;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  let audioContext: AudioContext | null = null;
+  let frameHandle = 0;
+
+  try {
+    await waitForEvent(video, 'loadedmetadata');
+
+    const scale = Math.min(1, profile.maxSide / Math.max(video.videoWidth, video.videoHeight));
+    // Dimensions paires : exigées par la plupart des encodeurs H.264
+    const width = Math.max(2, Math.round((video.videoWidth * scale) / 2) * 2);
+    const height = Math.max(2, Math.round((video.videoHeight * scale) / 2) * 2);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    const output = canvas.captureStream(profile.frameRate);
+
+    // Le son passe par Web Audio sans être joué sur les haut-parleurs
+    const AudioContextClass = window.AudioContext ||
+      (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (AudioContextClass) {
+      audioContext = new AudioContextClass();
+      const source = audioContext.createMediaElementSource(video);
+      const destination = audioContext.createMediaStreamDestination();
+      source.connect(destination);
+      destination.stream.getAudioTracks().forEach(track => output.addTrack(track));
+    } else {
+      video.muted = true;
+    }
+
+    video.currentTime = trim.start;
+    await waitForEvent(video, 'seeked');
+
+    const recorder = createVideoRecorder(output, profile);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    const duration = Math.max(0.1, trim.end - trim.start);
+    const drawFrame = () => {
+      ctx.drawImage(video, 0, 0, width, height);
+      onProgress?.(Math.min(1, (video.currentTime - trim.start) / duration));
+      if (video.currentTime >= trim.end || video.ended) {
+        video.pause();
+        if (recorder.state === 'recording') recorder.stop();
+        return;
+      }
+      frameHandle = requestAnimationFrame(drawFrame);
+    };
+
+    recorder.start(1000);
+    await audioContext?.resume();
+    await video.play();
+    drawFrame();
+    await stopped;
+
+    const result = new Blob(chunks, { type: recorder.mimeType || blob.type });
+    if (result.size === 0) throw new Error('Re-encoded video is empty');
+    onProgress?.(1);
+    return result;
+  } finally {
+    cancelAnimationFrame(frameHandle);
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(sourceUrl);
+    void audioContext?.close();
+  }
+};
@@ -31,11 +31,16 @@ CREATE TABLE IF NOT EXISTS stories (
   expires_at TIMESTAMP WITH TIME ZONE NOT NULL
 );
 
+-- Tailles de la photo produites à la capture : {"thumb": {"url", "width"}, "feed": ..., "full": ...}
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS image_renditions JSONB;
+
 -- Index pour les requêtes rapides
 CREATE INDEX IF NOT EXISTS idx_stories_expires_at ON stories(expires_at);
 CREATE INDEX IF NOT EXISTS idx_stories_location ON stories(latitude, longitude);
 CREATE INDEX IF NOT EXISTS idx_stories_user_id ON stories(user_id);
 CREATE INDEX IF NOT EXISTS idx_stories_created_at ON stories(created_at DESC);
+-- Index pour la pagination keyset du feed (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_stories_created_at_id ON stories(created_at DESC, id DESC);
 CREATE INDEX IF NOT EXISTS idx_stories_country_code ON stories(country_code);
 -- Index composite pour filtrage par pays + expiration (performance optimale)
 CREATE INDEX IF NOT EXISTS idx_stories_country_expires ON stories(country_code, expires_at) WHERE expires_at > NOW();
@@ -98,18 +103,8 @@ CREATE POLICY "Anyone can create likes" ON story_likes
 CREATE POLICY "Users can delete own likes" ON story_likes
   FOR DELETE USING (true);
 
--- Fonction pour incrémenter/décrémenter les likes de manière atomique
-CREATE OR REPLACE FUNCTION increment_story_likes(story_id TEXT, increment INTEGER)
-RETURNS TABLE(likes INTEGER) AS $$
-BEGIN
-  UPDATE stories 
-  SET likes = GREATEST(0, likes + increment)
-  WHERE id = story_id;
-  
-  RETURN QUERY
-  SELECT stories.likes FROM stories WHERE stories.id = story_id;
-END;
-$$ LANGUAGE plpgsql;
+-- Ancienne fonction de compteur : remplacée par toggle_like + triggers
+DROP FUNCTION IF EXISTS increment_story_likes(TEXT, INTEGER);
 
 -- Trigger pour maintenir le compteur de likes synchronisé (optionnel mais recommandé)
 CREATE OR REPLACE FUNCTION update_story_likes_count()
@@ -139,11 +134,345 @@ CREATE TRIGGER trigger_update_likes_on_delete
   FOR EACH ROW
   EXECUTE FUNCTION update_story_likes_count();
 
--- Fonction pour nettoyer automatiquement les stories expirées (optionnel)
+-- Like/unlike en un seul aller-retour
+-- p_liked NULL : inverse l'état actuel ; TRUE/FALSE : fixe l'état voulu (idempotent,
+-- le client envoie la dernière intention de l'utilisateur)
+-- Le compteur est maintenu par les triggers ci-dessus
+CREATE OR REPLACE FUNCTION toggle_like(
+  p_story_id TEXT,
+  p_user_id UUID,
+  p_liked BOOLEAN DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  v_has_liked BOOLEAN;
+  v_likes INTEGER;
+BEGIN
+  -- Verrouiller la story : les appels concurrents sont sérialisés
+  PERFORM 1 FROM stories WHERE id = p_story_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_has_liked := COALESCE(p_liked, NOT EXISTS (
+    SELECT 1 FROM story_likes
+    WHERE story_id = p_story_id AND user_id = p_user_id
+  ));
+
+  IF v_has_liked THEN
+    INSERT INTO story_likes (story_id, user_id)
+    VALUES (p_story_id, p_user_id)
+    ON CONFLICT (story_id, user_id) DO NOTHING;
+  ELSE
+    DELETE FROM story_likes
+    WHERE story_id = p_story_id AND user_id = p_user_id;
+  END IF;
+
+  SELECT likes INTO v_likes FROM stories WHERE id = p_story_id;
+
+  RETURN json_build_object(
+    'likes', v_likes,
+    'has_liked', v_has_liked
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Realtime : diffuser les likes pour les compteurs en direct
+-- REPLICA IDENTITY FULL : les DELETE incluent story_id dans l'ancien enregistrement
+ALTER TABLE story_likes REPLICA IDENTITY FULL;
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'story_likes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE story_likes;
+  END IF;
+END $$;
+
+-- Storage : bucket public `stories` (videos/, images/, posters/)
+-- Les médias ne sont plus stockés en data URL base64 dans image_url
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('stories', 'stories', true)
+ON CONFLICT (id) DO UPDATE SET public = true;
+
+DROP POLICY IF EXISTS "Anyone can read story media" ON storage.objects;
+CREATE POLICY "Anyone can read story media" ON storage.objects
+  FOR SELECT USING (bucket_id = 'stories');
+
+DROP POLICY IF EXISTS "Anyone can upload story media" ON storage.objects;
+CREATE POLICY "Anyone can upload story media" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'stories');
+
+-- upsert: true (renvoi d'un upload interrompu) passe par un UPDATE
+DROP POLICY IF EXISTS "Anyone can replace story media" ON storage.objects;
+CREATE POLICY "Anyone can replace story media" ON storage.objects
+  FOR UPDATE USING (bucket_id = 'stories');
+
+-- ============================================
+-- Spots persistants : id stable, nom canonique, alias, catégorie
+-- (mêmes règles que services/spots.ts pour le backend local)
+-- ============================================
+-- Extensions dans le schéma `extensions` (emplacement par défaut de Supabase) ;
+-- les fonctions qui les appellent fixent search_path = public, extensions, ce
+-- qui les trouve aussi si elles ont été activées dans public
+CREATE SCHEMA IF NOT EXISTS extensions;
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS spots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,                -- Nom canonique (première graphie, corrigeable par un admin)
+  aliases TEXT[] DEFAULT '{}',       -- Autres graphies utilisées par les stories
+  category TEXT NOT NULL DEFAULT 'other', -- cafe, restaurant, bar, club, beach, park, market, venue, other
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  country_code TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_spots_location ON spots(latitude, longitude);
+
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS spot_id UUID REFERENCES spots(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_stories_spot_id ON stories(spot_id);
+
+-- Lecture publique ; les spots sont créés par resolve_spot() et édités
+-- (nom, catégorie, description) depuis le dashboard
+ALTER TABLE spots ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Anyone can read spots" ON spots;
+CREATE POLICY "Anyone can read spots" ON spots
+  FOR SELECT USING (true);
+
+-- Clé de comparaison des noms : sans accents ni casse, ponctuation → espaces
+CREATE OR REPLACE FUNCTION spot_name_key(p_name TEXT)
+RETURNS TEXT AS $$
+  SELECT trim(regexp_replace(lower(unaccent(p_name)), '[^a-z0-9]+', ' ', 'g'));
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- Catégorie devinée depuis le nom (même liste que CATEGORY_KEYWORDS)
+CREATE OR REPLACE FUNCTION guess_spot_category(p_name TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_words TEXT := ' ' || spot_name_key(p_name) || ' ';
+BEGIN
+  RETURN CASE
+    WHEN v_words ~ ' (cafe|coffee|salon de the) ' THEN 'cafe'
+    WHEN v_words ~ ' (restaurant|resto|maquis|grill|pizzeria|dibiterie) ' THEN 'restaurant'
+    WHEN v_words ~ ' (bar|pub|lounge|buvette) ' THEN 'bar'
+    WHEN v_words ~ ' (club|boite|disco) ' THEN 'club'
+    WHEN v_words ~ ' (plage|beach) ' THEN 'beach'
+    WHEN v_words ~ ' (parc|park|jardin|garden) ' THEN 'park'
+    WHEN v_words ~ ' (marche|market|mall|centre commercial) ' THEN 'market'
+    WHEN v_words ~ ' (stade|stadium|salle|cinema|theatre|concert) ' THEN 'venue'
+    ELSE 'other'
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Nom sans articles pour la comparaison ("Le Petit Bateau" = "Petit Bateau"),
+-- même liste que NAME_STOP_WORDS
+CREATE OR REPLACE FUNCTION spot_name_core(p_name TEXT)
+RETURNS TEXT AS $$
+  SELECT coalesce(
+    nullif((
+      SELECT string_agg(word, ' ' ORDER BY position)
+      FROM regexp_split_to_table(spot_name_key(p_name), ' ') WITH ORDINALITY AS t(word, position)
+      WHERE word NOT IN ('le', 'la', 'les', 'l', 'the', 'chez', 'au', 'aux')
+    ), ''),
+    spot_name_key(p_name)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- 1 si même nom une fois normalisé, sinon 1 - distance d'édition / longueur
+-- (même calcul que spotNameSimilarity)
+CREATE OR REPLACE FUNCTION spot_name_similarity(p_a TEXT, p_b TEXT)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  v_a TEXT := left(spot_name_core(p_a), 255);
+  v_b TEXT := left(spot_name_core(p_b), 255);
+BEGIN
+  IF v_a = '' OR v_b = '' THEN RETURN 0; END IF;
+  IF v_a = v_b THEN RETURN 1; END IF;
+  RETURN 1 - levenshtein(v_a, v_b)::DOUBLE PRECISION / GREATEST(length(v_a), length(v_b));
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+-- Spot existant au nom le plus ressemblant (canonique ou alias), puis le plus
+-- proche : même nom normalisé à moins de 150 m, ou nom similaire à 85 % à
+-- moins de 50 m (voir isSameSpot). Créé s'il n'existe pas ; une nouvelle
+-- graphie est ajoutée aux alias
+CREATE OR REPLACE FUNCTION resolve_spot(
+  p_name TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_country_code TEXT
+)
+RETURNS spots AS $$
+DECLARE
+  v_name TEXT := trim(p_name);
+  v_radius_m CONSTANT DOUBLE PRECISION := 150;
+  v_fuzzy_radius_m CONSTANT DOUBLE PRECISION := 50;
+  v_min_similarity CONSTANT DOUBLE PRECISION := 0.85;
+  v_lat_delta DOUBLE PRECISION := v_radius_m / 111320.0;
+  v_lon_delta DOUBLE PRECISION := v_radius_m / (111320.0 * GREATEST(cos(radians(p_latitude)), 0.01));
+  v_spot_id UUID;
+  v_spot spots;
+BEGIN
+  -- Deux stories simultanées au même endroit ne créent qu'un spot : verrou
+  -- par cellule de ~1 km, les graphies d'un même lieu n'ayant plus la même clé
+  PERFORM pg_advisory_xact_lock(hashtext(
+    'spot:' || round(p_latitude * 100)::TEXT || ':' || round(p_longitude * 100)::TEXT
+  ));
+
+  SELECT candidate.id INTO v_spot_id
+  FROM (
+    SELECT
+      s.id,
+      (SELECT max(spot_name_similarity(known, p_name)) FROM unnest(s.name || s.aliases) AS known) AS similarity,
+      sqrt(
+        ((s.latitude - p_latitude) * 111320.0) ^ 2 +
+        ((s.longitude - p_longitude) * 111320.0 * cos(radians(p_latitude))) ^ 2
+      ) AS distance_m
+    FROM spots s
+    WHERE s.latitude BETWEEN p_latitude - v_lat_delta AND p_latitude + v_lat_delta
+      AND s.longitude BETWEEN p_longitude - v_lon_delta AND p_longitude + v_lon_delta
+  ) AS candidate
+  WHERE (candidate.similarity = 1 AND candidate.distance_m <= v_radius_m)
+     OR (candidate.similarity >= v_min_similarity AND candidate.distance_m <= v_fuzzy_radius_m)
+  ORDER BY candidate.similarity DESC, candidate.distance_m
+  LIMIT 1;
+
+  IF v_spot_id IS NULL THEN
+    INSERT INTO spots (name, category, latitude, longitude, country_code)
+    VALUES (v_name, guess_spot_category(v_name), p_latitude, p_longitude, p_country_code)
+    RETURNING * INTO v_spot;
+  ELSE
+    SELECT * INTO v_spot FROM spots WHERE id = v_spot_id;
+    IF v_name <> '' AND v_name <> v_spot.name AND NOT (v_name = ANY(v_spot.aliases)) THEN
+      UPDATE spots SET aliases = array_append(aliases, v_name)
+      WHERE id = v_spot.id
+      RETURNING * INTO v_spot;
+    END IF;
+  END IF;
+
+  RETURN v_spot;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Chaque story publiée est rattachée à son spot (l'app, l'outbox et le
+-- service worker insèrent sans spot_id)
+CREATE OR REPLACE FUNCTION assign_story_spot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.spot_id IS NULL THEN
+    NEW.spot_id := (resolve_spot(NEW.location_name, NEW.latitude, NEW.longitude, NEW.country_code)).id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_assign_story_spot ON stories;
+CREATE TRIGGER trigger_assign_story_spot
+  BEFORE INSERT ON stories
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_story_spot();
+
+-- Stories existantes : rattachées à leur spot
+UPDATE stories
+SET spot_id = (resolve_spot(location_name, latitude, longitude, country_code)).id
+WHERE spot_id IS NULL;
+
+-- ============================================
+-- Check-ins : "je suis là" sur un spot, sans story
+-- (mêmes règles que services/checkIns.ts pour le backend local)
+-- ============================================
+CREATE TABLE IF NOT EXISTS check_ins (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  spot_id UUID NOT NULL REFERENCES spots(id) ON DELETE CASCADE,
+  location_name TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,  -- Position de l'utilisateur
+  longitude DOUBLE PRECISION NOT NULL,
+  country_code TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_check_ins_user_id ON check_ins(user_id);
+CREATE INDEX IF NOT EXISTS idx_check_ins_spot_id ON check_ins(spot_id);
+CREATE INDEX IF NOT EXISTS idx_check_ins_country_expires ON check_ins(country_code, expires_at);
+
+-- Lecture des check-ins actifs ; écriture uniquement via check_in()
+ALTER TABLE check_ins ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Anyone can read active check-ins" ON check_ins;
+CREATE POLICY "Anyone can read active check-ins" ON check_ins
+  FOR SELECT USING (expires_at > NOW());
+
+-- Check-in à moins de 200 m du spot (CHECK_IN_RADIUS_M), valable 3 heures
+-- (CHECK_IN_LIFETIME_MS). Sans spot connu, le spot est résolu par nom et
+-- position du spot (pas celle de l'utilisateur) comme pour une story ; la
+-- distance est vérifiée dans les deux cas. Le check-in précédent de
+-- l'utilisateur est supprimé : on n'est qu'à un endroit à la fois.
+DROP FUNCTION IF EXISTS check_in(UUID, UUID, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TEXT);
+CREATE OR REPLACE FUNCTION check_in(
+  p_user_id UUID,
+  p_spot_id UUID,
+  p_location_name TEXT,
+  p_spot_latitude DOUBLE PRECISION,
+  p_spot_longitude DOUBLE PRECISION,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_country_code TEXT
+)
+RETURNS check_ins AS $$
+DECLARE
+  v_radius_m CONSTANT DOUBLE PRECISION := 200;
+  v_spot spots;
+  v_check_in check_ins;
+BEGIN
+  IF p_spot_id IS NOT NULL THEN
+    SELECT * INTO v_spot FROM spots WHERE id = p_spot_id;
+  END IF;
+
+  IF v_spot.id IS NULL THEN
+    v_spot := resolve_spot(p_location_name, p_spot_latitude, p_spot_longitude, p_country_code);
+  END IF;
+
+  IF sqrt(
+    ((v_spot.latitude - p_latitude) * 111320.0) ^ 2 +
+    ((v_spot.longitude - p_longitude) * 111320.0 * cos(radians(p_latitude))) ^ 2
+  ) > v_radius_m THEN
+    RAISE EXCEPTION 'Too far from this spot to check in';
+  END IF;
+
+  DELETE FROM check_ins WHERE user_id = p_user_id;
+
+  INSERT INTO check_ins (user_id, spot_id, location_name, latitude, longitude, country_code, expires_at)
+  VALUES (p_user_id, v_spot.id, trim(p_location_name), p_latitude, p_longitude, p_country_code, NOW() + INTERVAL '3 hours')
+  RETURNING * INTO v_check_in;
+
+  RETURN v_check_in;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Realtime : "N personnes ici" en direct
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'check_ins'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE check_ins;
+  END IF;
+END $$;
+
+-- Fonction pour nettoyer automatiquement les stories et check-ins expirés (optionnel)
 CREATE OR REPLACE FUNCTION cleanup_expired_stories()
 RETURNS void AS $$
 BEGIN
   DELETE FROM stories WHERE expires_at < NOW();
+  DELETE FROM check_ins WHERE expires_at < NOW();
 END;
 $$ LANGUAGE plpgsql;
 
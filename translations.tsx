@@ -20,22 +20,58 @@ const translations: Record<Language, Record<string, string>> = {
     'app.feed.login': 'Log In',
     'app.feed.noStories': 'No active stories in this area right now.',
     'app.feed.beFirst': 'Be the first to post!',
+    'app.feed.newStory': 'new story',
+    'app.feed.newStories': 'new stories',
     'app.nav.map': 'Map',
     'app.nav.feed': 'Feed',
     'app.nav.profile': 'Profile',
     'app.filter.all': 'All',
+    'app.filter.radius': 'Radius',
+    'app.filter.nearMe.noLocation': 'Enable location to see stories near you.',
 
     // Map
     'map.you': 'You',
     'map.realtime': 'Conakry Real-time',
     'map.viewStories': 'View Stories',
     'map.checkIn': 'Check In',
+    'map.trending': 'Trending',
+    'map.cluster.spots': 'spots',
+    'map.cluster.zoom': 'Zoom in on these spots',
+    'map.heatmap': 'Activity heatmap',
+    'map.replay': '24h replay',
+    'map.replay.play': 'Play',
+    'map.replay.pause': 'Pause',
+    'map.replay.speed': 'Replay speed',
+    'map.replay.close': 'Back to live',
+    'map.replay.stories': 'stories',
+    'spot.back': 'Back',
+    'spot.vibeScore': 'Vibe score',
+    'spot.stories': 'Stories',
+    'spot.contributors': 'Contributors',
+    'spot.lastActivity': 'Last activity',
+    'spot.activity': 'Last 24 hours',
+    'spot.hoursAgo': '24h ago',
+    'spot.now': 'Now',
+    'spot.postHere': 'Post here',
+    'spot.noStories': 'No active stories here right now. Be the first!',
+    'spot.peopleHere.one': 'person here now',
+    'spot.peopleHere.other': 'people here now',
+    'spot.checkedIn': 'You\'re here',
+    'spot.category.cafe': 'Café',
+    'spot.category.restaurant': 'Restaurant',
+    'spot.category.bar': 'Bar',
+    'spot.category.club': 'Club',
+    'spot.category.beach': 'Beach',
+    'spot.category.park': 'Park',
+    'spot.category.market': 'Market',
+    'spot.category.venue': 'Venue',
 
     // Auth
     'auth.join': 'Join SpotLive',
     'auth.desc': 'Log in to',
     'auth.action.post': 'post a story',
     'auth.action.profile': 'view profile',
+    'auth.action.checkIn': 'check in',
     'auth.share': 'and share your vibe with Conakry.',
     'auth.input.label': 'Username or Phone',
     'auth.input.placeholder': 'Enter your name',
@@ -56,6 +92,10 @@ const translations: Record<Language, Record<string, string>> = {
     'create.captionPlaceholder': 'Describe the vibe...',
     'create.hashtagsPlaceholder': '#hashtags',
     'create.share': 'Share to Spot',
+    'create.trim.start': 'Set start',
+    'create.trim.end': 'Set end',
+    'create.trim.reset': 'Reset',
+    'create.optimizingVideo': 'Optimizing video',
 
     // Profile
     'profile.edit': 'Edit Profile',
@@ -66,6 +106,39 @@ const translations: Record<Language, Record<string, string>> = {
     'profile.level': 'Explorer Level 1',
     'profile.language': 'Language',
     'profile.noStories': 'You haven\'t posted any stories yet.',
+
+    // Errors (service error kinds, see services/result.ts)
+    'errors.network': 'You appear to be offline. Check your connection and try again.',
+    'errors.auth': 'Your session has expired. Please log in again.',
+    'errors.permission_denied': 'You are not allowed to do that.',
+    'errors.not_found': 'This content no longer exists.',
+    'errors.validation': 'The request was rejected.',
+    'errors.rate_limited': 'Too many requests. Please wait a moment.',
+    'errors.unknown': 'Something went wrong. Please try again.',
+    'errors.action.loadStories': 'Couldn\'t load stories.',
+    'errors.action.postStory': 'Couldn\'t publish your story.',
+    'errors.action.deleteStory': 'Couldn\'t delete the story.',
+    'errors.action.like': 'Couldn\'t save your like.',
+    'errors.action.login': 'Couldn\'t create your account.',
+    'errors.action.loadCountries': 'Couldn\'t load countries.',
+    'errors.action.report': 'Couldn\'t send the report.',
+    'errors.action.openStory': 'Couldn\'t open the shared story.',
+    'errors.action.searchPlace': 'Couldn\'t search for this place.',
+    'errors.action.checkIn': 'Couldn\'t check in.',
+
+    // Offline outbox
+    'outbox.queued.story': 'You\'re offline. Your story will be published when the connection is back.',
+    'outbox.queued.report': 'You\'re offline. Your report will be sent when the connection is back.',
+    'story.pendingUpload': 'Pending upload',
+    'viewer.close': 'Close',
+    'viewer.mute': 'Mute',
+    'viewer.unmute': 'Unmute',
+    'shared.expired.title': 'This story has expired',
+    'shared.expired.desc': 'Stories disappear after 24 hours. See what\'s happening right now instead.',
+    'shared.expired.button': 'Explore SpotLive',
+    'checkIn.success': 'You\'re checked in! Others can see you\'re here for the next 3 hours.',
+    'checkIn.noLocation': 'Enable location to check in.',
+    'checkIn.tooFar': 'You need to be at this spot to check in.',
   },
   fr: {
     // App / Welcome
@@ -78,22 +151,58 @@ const translations: Record<Language, Record<string, string>> = {
     'app.feed.login': 'Connexion',
     'app.feed.noStories': 'Aucune story active dans cette zone pour le moment.',
     'app.feed.beFirst': 'Soyez le premier à poster !',
+    'app.feed.newStory': 'nouvelle story',
+    'app.feed.newStories': 'nouvelles stories',
     'app.nav.map': 'Carte',
     'app.nav.feed': 'Fil',
     'app.nav.profile': 'Profil',
     'app.filter.all': 'Tous',
+    'app.filter.radius': 'Rayon',
+    'app.filter.nearMe.noLocation': 'Activez la localisation pour voir les stories autour de vous.',
 
     // Map
     'map.you': 'Vous',
     'map.realtime': 'Conakry En Direct',
     'map.viewStories': 'Voir les Stories',
     'map.checkIn': 'Pointer ici',
+    'map.trending': 'Tendances',
+    'map.cluster.spots': 'spots',
+    'map.cluster.zoom': 'Zoomer sur ces spots',
+    'map.heatmap': 'Carte de chaleur',
+    'map.replay': 'Relecture 24h',
+    'map.replay.play': 'Lecture',
+    'map.replay.pause': 'Pause',
+    'map.replay.speed': 'Vitesse de relecture',
+    'map.replay.close': 'Retour au direct',
+    'map.replay.stories': 'stories',
+    'spot.back': 'Retour',
+    'spot.vibeScore': 'Score vibe',
+    'spot.stories': 'Stories',
+    'spot.contributors': 'Contributeurs',
+    'spot.lastActivity': 'Dernière activité',
+    'spot.activity': 'Dernières 24 heures',
+    'spot.hoursAgo': 'Il y a 24h',
+    'spot.now': 'Maintenant',
+    'spot.postHere': 'Poster ici',
+    'spot.noStories': 'Aucune story active ici pour le moment. Soyez le premier !',
+    'spot.peopleHere.one': 'personne ici en ce moment',
+    'spot.peopleHere.other': 'personnes ici en ce moment',
+    'spot.checkedIn': 'Vous êtes ici',
+    'spot.category.cafe': 'Café',
+    'spot.category.restaurant': 'Restaurant',
+    'spot.category.bar': 'Bar',
+    'spot.category.club': 'Club',
+    'spot.category.beach': 'Plage',
+    'spot.category.park': 'Parc',
+    'spot.category.market': 'Marché',
+    'spot.category.venue': 'Salle',
 
     // Auth
     'auth.join': 'Rejoindre SpotLive',
     'auth.desc': 'Connectez-vous pour',
     'auth.action.post': 'poster une story',
     'auth.action.profile': 'voir le profil',
+    'auth.action.checkIn': 'pointer ici',
     'auth.share': 'et partagez votre ambiance avec Conakry.',
     'auth.input.label': 'Nom d\'utilisateur ou Téléphone',
     'auth.input.placeholder': 'Entrez votre nom',
@@ -114,6 +223,10 @@ const translations: Record<Language, Record<string, string>> = {
     'create.captionPlaceholder': 'Décrivez l\'ambiance...',
     'create.hashtagsPlaceholder': '#hashtags',
     'create.share': 'Publier le Spot',
+    'create.trim.start': 'Début ici',
+    'create.trim.end': 'Fin ici',
+    'create.trim.reset': 'Réinitialiser',
+    'create.optimizingVideo': 'Optimisation de la vidéo',
 
     // Profile
     'profile.edit': 'Modifier Profil',
@@ -124,6 +237,39 @@ const translations: Record<Language, Record<string, string>> = {
     'profile.level': 'Explorateur Niveau 1',
     'profile.language': 'Langue',
     'profile.noStories': 'Vous n\'avez pas encore posté de story.',
+
+    // Erreurs
+    'errors.network': 'Vous semblez hors ligne. Vérifiez votre connexion et réessayez.',
+    'errors.auth': 'Votre session a expiré. Reconnectez-vous.',
+    'errors.permission_denied': 'Vous n\'avez pas le droit de faire cela.',
+    'errors.not_found': 'Ce contenu n\'existe plus.',
+    'errors.validation': 'La requête a été refusée.',
+    'errors.rate_limited': 'Trop de requêtes. Patientez un instant.',
+    'errors.unknown': 'Une erreur est survenue. Réessayez.',
+    'errors.action.loadStories': 'Impossible de charger les stories.',
+    'errors.action.postStory': 'Impossible de publier votre story.',
+    'errors.action.deleteStory': 'Impossible de supprimer la story.',
+    'errors.action.like': 'Impossible d\'enregistrer votre like.',
+    'errors.action.login': 'Impossible de créer votre compte.',
+    'errors.action.loadCountries': 'Impossible de charger les pays.',
+    'errors.action.report': 'Impossible d\'envoyer le signalement.',
+    'errors.action.openStory': 'Impossible d\'ouvrir la story partagée.',
+    'errors.action.searchPlace': 'Impossible de rechercher ce lieu.',
+    'errors.action.checkIn': 'Impossible d\'enregistrer votre présence.',
+
+    // Outbox hors ligne
+    'outbox.queued.story': 'Vous êtes hors ligne. Votre story sera publiée au retour de la connexion.',
+    'outbox.queued.report': 'Vous êtes hors ligne. Votre signalement sera envoyé au retour de la connexion.',
+    'story.pendingUpload': 'En attente d\'envoi',
+    'viewer.close': 'Fermer',
+    'viewer.mute': 'Couper le son',
+    'viewer.unmute': 'Activer le son',
+    'shared.expired.title': 'Cette story a expiré',
+    'shared.expired.desc': 'Les stories disparaissent après 24 heures. Découvrez plutôt ce qui se passe en ce moment.',
+    'shared.expired.button': 'Explorer SpotLive',
+    'checkIn.success': 'Présence enregistrée ! Les autres vous voient ici pendant 3 heures.',
+    'checkIn.noLocation': 'Activez la localisation pour pointer ici.',
+    'checkIn.tooFar': 'Vous devez être sur place pour pointer ici.',
   }
 };
 
@@ -3,7 +3,8 @@ export enum ViewState {
   FEED = 'FEED',
   POST = 'POST',
   PROFILE = 'PROFILE',
-  AUTH = 'AUTH'
+  AUTH = 'AUTH',
+  SPOT = 'SPOT'
 }
 
 export interface User {
@@ -13,12 +14,23 @@ export interface User {
   isGuest: boolean;
 }
 
+// Photo sizes produced at capture (see services/mediaProcessing.ts)
+export type ImageRenditionName = 'thumb' | 'feed' | 'full';
+
+export interface ImageRendition {
+  url: string;
+  width: number;
+}
+
+export type ImageRenditions = Partial<Record<ImageRenditionName, ImageRendition>>;
+
 export interface Story {
   id: string;
   userId: string;
   username: string;
   userAvatar: string;
   imageUrl: string;
+  imageRenditions?: ImageRenditions; // Photos only, for srcset (imageUrl = full size)
   videoUrl?: string; // Optional for MVP
   timestamp: number;
   caption: string;
@@ -30,20 +42,50 @@ export interface Story {
   longitude: number;
   locationName: string; // "Le Petit Bateau" or custom
   countryCode?: string; // ISO 3166-1 alpha-2 (ex: 'FR', 'GN', 'US')
+  spotId?: string; // Persistent spot (SpotRecord), assigned when the story is published
   
   // Social
   likes: number;
 }
 
+// "I'm here" at a spot without posting a story (see services/checkIns.ts)
+export interface CheckIn {
+  id: string;
+  userId: string;
+  spotId?: string; // Persistent spot, assigned by the backend
+  locationName: string;
+  latitude: number; // User's position when checking in
+  longitude: number;
+  countryCode?: string;
+  timestamp: number;
+  expiresAt: number;
+}
+
+export type SpotCategory = 'cafe' | 'restaurant' | 'bar' | 'club' | 'beach' | 'park' | 'market' | 'venue' | 'other';
+
+// Place stored in the backend (table `spots`, see services/spots.ts)
+export interface SpotRecord {
+  id: string;
+  name: string; // Canonical name
+  aliases: string[]; // Other spellings used by stories posted here
+  category: SpotCategory;
+  latitude: number;
+  longitude: number;
+  countryCode: string;
+  description: string;
+}
+
 export interface Spot {
-  id: string; // Generated ID (e.g. cluster center)
-  name: string; // Derived from most common locationName or first story
+  id: string; // SpotRecord id (or a name + coordinates key for stories without one)
+  name: string; // Most used spelling among its stories (see services/spotGrouping.ts)
   neighborhood: string; // Derived from lat/long
   latitude: number;
   longitude: number;
   description: string;
+  category?: SpotCategory;
   activeStories: Story[];
-  vibeScore: number; // Calculated based on activity
+  activeCheckIns: CheckIn[]; // Unexpired check-ins ("N people here now")
+  vibeScore: number; // Time-decayed trending score (see services/trendingService.ts)
 }
 
 export interface GeminiAnalysisResult {
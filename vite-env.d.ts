@@ -0,0 +1,24 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  // 'supabase' | 'local' (voir services/backend.ts)
+  readonly VITE_STORAGE_BACKEND?: string;
+  // 'high' | 'medium' | 'low' : profil vidéo forcé (voir services/videoProcessing.ts)
+  readonly VITE_VIDEO_QUALITY?: string;
+  // Carte (voir services/mapTiles.ts) : modèle d'URL XYZ, attribution, tuiles déjà sombres
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
+  readonly VITE_MAP_TILES_DARK?: string;
+  // Géocodage (voir services/geocoding.ts) : 'nominatim' | 'local', serveur, email d'identification
+  readonly VITE_GEOCODING_PROVIDER?: string;
+  readonly VITE_GEOCODING_URL?: string;
+  readonly VITE_GEOCODING_EMAIL?: string;
+  // Registre des quartiers (voir services/neighborhoods.ts) : dossier contenant index.json
+  readonly VITE_NEIGHBORHOODS_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}